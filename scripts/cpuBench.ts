@@ -1,50 +1,96 @@
-import { chooseCpuMove, CPU_DIFFICULTY_LABELS, type CpuDifficulty } from '../src/lib/cpuPlayer'
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
 import {
+  chooseCpuMove,
+  CPU_DIFFICULTY_LABELS,
+  CPU_PERSONALITY_LABELS,
+  EVALUATOR_LABELS,
+  type CpuDifficulty,
+  type CpuMoveOptions,
+  type CpuPersonality,
+  type EvaluatorName,
+} from '../src/lib/cpuPlayer'
+import { expectedScore } from '../shared/elo'
+import {
+  advancePosition,
   applyMove,
+  boardToBitboards,
+  computeMoveMask,
   computeValidMoves,
+  coordinateToIndex,
   countDisks,
   createInitialBoard,
+  createInitialPosition,
+  formatMoveList,
   nextDisk,
+  popcount,
+  replayMoves,
+  type Cell,
   type Disk,
+  type GamePosition,
+  type MoveRecord,
 } from '../shared/othello'
+import {
+  createRandomSeed,
+  createSeededRandom,
+  deriveSeed,
+  parseSeed,
+  type RandomSource,
+} from '../shared/random'
+import { estimateElo, type RatedGame } from './elo'
 
 interface GameResult {
   winner: Disk | 'draw'
   scores: ReturnType<typeof countDisks>
+  nodes: number
+  /** Seeds both CPUs' random choices; pass it back to `playHeadlessMatch` to replay the game. */
+  seed: number
 }
 
+// Every random choice of a run derives from this, so the same seed replays the same run.
+const BENCH_SEED = parseSeed(process.env.CPU_BENCH_SEED) ?? createRandomSeed()
+const benchRandom = createSeededRandom(BENCH_SEED)
+
 const randomEntry = <T>(iterable: Iterable<T>): T => {
   const array = Array.from(iterable)
   if (!array.length) throw new Error('Cannot pick from empty iterable')
-  return array[Math.floor(Math.random() * array.length)]
+  return array[Math.floor(benchRandom() * array.length)]
 }
 
 const RANDOM_OPENING_PLIES = Number(process.env.CPU_BENCH_RANDOM_PLIES ?? 2)
 
-const playHeadlessMatch = (
-  blackDifficulty: CpuDifficulty,
-  whiteDifficulty: CpuDifficulty,
-  randomOpeningPlies = RANDOM_OPENING_PLIES,
-): GameResult => {
-  let board = createInitialBoard()
-  let currentDisk: Disk = 'B'
-  let passes = 0
-
-  for (let i = 0; i < randomOpeningPlies; i += 1) {
-    const moves = computeValidMoves(board, currentDisk)
-    if (!moves.size) {
-      passes += 1
-      if (passes >= 2) return { winner: 'draw', scores: countDisks(board) }
-      currentDisk = nextDisk(currentDisk)
-      continue
+// Random legal moves (passes included) from the start; stops early if the game ends.
+const randomOpening = (plies: number, random: RandomSource = benchRandom): MoveRecord[] => {
+  const opening: MoveRecord[] = []
+  let position: GamePosition = createInitialPosition()
+  while (opening.length < plies) {
+    const moves = [...computeValidMoves(position.board, position.currentDisk).keys()]
+    const record: MoveRecord = {
+      disk: position.currentDisk,
+      index: moves.length ? moves[Math.floor(random() * moves.length)] : null,
     }
-    passes = 0
-    const [move, flips] = randomEntry(moves.entries())
-    board = applyMove(board, move, currentDisk, flips)
-    currentDisk = nextDisk(currentDisk)
+    const next = advancePosition(position, record)
+    if (!next) break
+    opening.push(record)
+    position = next
   }
+  return opening
+}
 
-  passes = 0
+const playHeadlessMatch = (
+  blackOptions: CpuMoveOptions,
+  whiteOptions: CpuMoveOptions,
+  opening: MoveRecord[] = randomOpening(RANDOM_OPENING_PLIES),
+  seed: number = createRandomSeed(benchRandom),
+): GameResult => {
+  // One stream for the whole game: the moves are reproducible as long as the searches are (no time limits).
+  const random = createSeededRandom(seed)
+  const start = replayMoves(opening)
+  if (!start) throw new Error(`Illegal opening ${formatMoveList(opening)}`)
+  let board = start.board
+  let currentDisk = start.currentDisk
+  let passes = 0
+  let nodes = 0
 
   while (passes < 2) {
     const moves = computeValidMoves(board, currentDisk)
@@ -55,8 +101,9 @@ const playHeadlessMatch = (
     }
 
     passes = 0
-    const difficulty = currentDisk === 'B' ? blackDifficulty : whiteDifficulty
-    const result = chooseCpuMove(board, currentDisk, { difficulty })
+    const options = currentDisk === 'B' ? blackOptions : whiteOptions
+    const result = chooseCpuMove(board, currentDisk, { ...options, random })
+    nodes += result.nodes
     const chosenMove = result.move ?? moves.keys().next().value
     const flips = moves.get(chosenMove)
     if (!flips) throw new Error('Expected flips for chosen move')
@@ -66,16 +113,94 @@ const playHeadlessMatch = (
 
   const scores = countDisks(board)
   const winner = scores.B === scores.W ? 'draw' : scores.B > scores.W ? 'B' : 'W'
-  return { winner, scores }
+  return { winner, scores, nodes, seed }
 }
 
-const aggregate = (games: number, black: CpuDifficulty, white: CpuDifficulty) => {
+const aggregate = (games: number, black: CpuMoveOptions, white: CpuMoveOptions) => {
   const tally: Record<'B' | 'W' | 'draw', number> = { B: 0, W: 0, draw: 0 }
+  let nodes = 0
+  const startedAt = performance.now()
   for (let i = 0; i < games; i += 1) {
-    const { winner } = playHeadlessMatch(black, white)
-    tally[winner] += 1
+    const result = playHeadlessMatch(black, white)
+    tally[result.winner] += 1
+    nodes += result.nodes
   }
-  return tally
+  return { tally, nodes, elapsedMs: performance.now() - startedAt }
+}
+
+const MOVEGEN_SAMPLES = Number(process.env.CPU_BENCH_MOVEGEN_SAMPLES ?? 2000)
+
+const MOVEGEN_ROUNDS = 5
+
+// Positions along random playouts where the side to move has at least one move.
+const sampleRandomPositions = (count: number) => {
+  const positions: Array<[Cell[], Disk]> = []
+  let board = createInitialBoard()
+  let currentDisk: Disk = 'B'
+  while (positions.length < count) {
+    const moves = computeValidMoves(board, currentDisk)
+    if (!moves.size) {
+      board = createInitialBoard()
+      currentDisk = 'B'
+      continue
+    }
+    positions.push([board, currentDisk])
+    const [move, flips] = randomEntry(moves.entries())
+    board = applyMove(board, move, currentDisk, flips)
+    currentDisk = nextDisk(currentDisk)
+  }
+  return positions
+}
+
+// Times the mobility count the evaluator needs: Cell[] scan vs bitboard mask on the same positions.
+const benchMoveGeneration = (samples: number) => {
+  const positions = sampleRandomPositions(samples)
+  const bitPositions = positions.map(([position, disk]) => {
+    const pair = boardToBitboards(position)
+    return [pair[disk], pair[nextDisk(disk)]] as const
+  })
+
+  const time = (run: () => void) => {
+    run()
+    const startedAt = performance.now()
+    for (let round = 0; round < MOVEGEN_ROUNDS; round += 1) run()
+    return performance.now() - startedAt
+  }
+
+  let checksum = 0
+  const arrayMs = time(() => {
+    for (const [position, disk] of positions) checksum += computeValidMoves(position, disk).size
+  })
+  const bitboardMs = time(() => {
+    for (const [player, opponent] of bitPositions) {
+      checksum -= popcount(computeMoveMask(player, opponent))
+    }
+  })
+  if (checksum !== 0) throw new Error('Move generators disagree')
+
+  console.log(
+    `着手生成 (${samples}局面 x${MOVEGEN_ROUNDS}): Cell[] ${arrayMs.toFixed(1)}ms / bitboard ${bitboardMs.toFixed(1)}ms` +
+      ` (x${(arrayMs / Math.max(bitboardMs, 0.001)).toFixed(1)})`,
+  )
+}
+
+const TT_SAMPLES = Number(process.env.CPU_BENCH_TT_SAMPLES ?? 30)
+const TT_DEPTH = Number(process.env.CPU_BENCH_TT_DEPTH ?? 6)
+
+// Same fixed-depth search with and without the transposition table.
+const benchTranspositionTable = (samples: number, depth: number) => {
+  const positions = sampleRandomPositions(samples)
+  let withoutTable = 0
+  let withTable = 0
+  for (const [board, disk] of positions) {
+    const options = { difficulty: 'hard' as const, maxDepthOverride: depth, useOpeningBook: false }
+    withoutTable += chooseCpuMove(board, disk, { ...options, useTranspositionTable: false }).nodes
+    withTable += chooseCpuMove(board, disk, options).nodes
+  }
+  console.log(
+    `置換表 (${samples}局面, 深さ${depth}): なし ${withoutTable} nodes / あり ${withTable} nodes` +
+      ` (${((1 - withTable / Math.max(withoutTable, 1)) * 100).toFixed(1)}% 削減)`,
+  )
 }
 
 const GAMES = Number(process.env.CPU_BENCH_GAMES ?? 12)
@@ -84,8 +209,8 @@ const ORDERED_DIFFICULTIES: CpuDifficulty[] = ['easy', 'normal', 'hard', 'saikyo
 
 const scenarios: Array<[
   string,
-  CpuDifficulty,
-  CpuDifficulty,
+  CpuMoveOptions,
+  CpuMoveOptions,
 ]> = []
 
 for (let i = 0; i < ORDERED_DIFFICULTIES.length; i += 1) {
@@ -94,18 +219,257 @@ for (let i = 0; i < ORDERED_DIFFICULTIES.length; i += 1) {
     const b = ORDERED_DIFFICULTIES[j]
     scenarios.push([
       `${CPU_DIFFICULTY_LABELS[a]} vs ${CPU_DIFFICULTY_LABELS[b]}`,
-      a,
-      b,
+      { difficulty: a },
+      { difficulty: b },
     ])
     scenarios.push([
       `${CPU_DIFFICULTY_LABELS[b]} vs ${CPU_DIFFICULTY_LABELS[a]}`,
-      b,
-      a,
+      { difficulty: b },
+      { difficulty: a },
     ])
   }
 }
 
-for (const [label, black, white] of scenarios) {
-  const tally = aggregate(GAMES, black, white)
-  console.log(`${label} (${GAMES}局):`, tally)
+// Same preset with each evaluator, both colours, to compare evaluators at equal search settings.
+const EVALUATOR_DIFFICULTY = (process.env.CPU_BENCH_EVALUATOR_DIFFICULTY ?? 'normal') as CpuDifficulty
+const EVALUATOR_PAIR: [EvaluatorName, EvaluatorName] = ['pattern', 'heuristic']
+
+for (const [first, second] of [EVALUATOR_PAIR, [EVALUATOR_PAIR[1], EVALUATOR_PAIR[0]]]) {
+  scenarios.push([
+    `${CPU_DIFFICULTY_LABELS[EVALUATOR_DIFFICULTY]}: ${EVALUATOR_LABELS[first]} vs ${EVALUATOR_LABELS[second]}`,
+    { difficulty: EVALUATOR_DIFFICULTY, evaluatorOverride: first },
+    { difficulty: EVALUATOR_DIFFICULTY, evaluatorOverride: second },
+  ])
+}
+
+// Each personality against the standard style at the same difficulty, both colours.
+const PERSONALITY_DIFFICULTY = (process.env.CPU_BENCH_PERSONALITY_DIFFICULTY ?? 'normal') as CpuDifficulty
+const BENCH_PERSONALITIES: CpuPersonality[] = ['greedy', 'edge', 'mobility', 'random']
+
+for (const personality of BENCH_PERSONALITIES) {
+  const styled: CpuMoveOptions = { difficulty: PERSONALITY_DIFFICULTY, personality }
+  const standard: CpuMoveOptions = { difficulty: PERSONALITY_DIFFICULTY }
+  const prefix = `${CPU_DIFFICULTY_LABELS[PERSONALITY_DIFFICULTY]}: `
+  scenarios.push(
+    [`${prefix}${CPU_PERSONALITY_LABELS[personality]} vs ${CPU_PERSONALITY_LABELS.standard}`, styled, standard],
+    [`${prefix}${CPU_PERSONALITY_LABELS.standard} vs ${CPU_PERSONALITY_LABELS[personality]}`, standard, styled],
+  )
+}
+
+const runScenarios = () => {
+  benchMoveGeneration(MOVEGEN_SAMPLES)
+  benchTranspositionTable(TT_SAMPLES, TT_DEPTH)
+
+  for (const [label, black, white] of scenarios) {
+    const { tally, nodes, elapsedMs } = aggregate(GAMES, black, white)
+    const nodesPerSecond = Math.round(nodes / Math.max(elapsedMs / 1000, 0.001))
+    console.log(
+      `${label} (${GAMES}局):`,
+      tally,
+      `${(elapsedMs / 1000).toFixed(2)}s, ${nodes} nodes, ${nodesPerSecond} nodes/s`,
+    )
+  }
+}
+
+// Tournament mode: round-robin over a fixed (or seeded) opening set, both colours, Elo at the end.
+const TOURNAMENT_PLAYERS = (process.env.CPU_BENCH_PLAYERS ?? ORDERED_DIFFICULTIES.join(',')).split(',')
+const TOURNAMENT_OPENING_PLIES = Number(process.env.CPU_BENCH_OPENING_PLIES ?? 4)
+const TOURNAMENT_OPENINGS = Number(process.env.CPU_BENCH_OPENINGS ?? 8)
+// 'fixed' enumerates openings (independent of the seed); 'seeded' draws them from CPU_BENCH_SEED.
+const TOURNAMENT_OPENING_SET = process.env.CPU_BENCH_OPENING_SET === 'seeded' ? 'seeded' : 'fixed'
+const TOURNAMENT_BOOTSTRAP = Number(process.env.CPU_BENCH_BOOTSTRAP ?? 200)
+const TOURNAMENT_OUTPUT = process.env.CPU_BENCH_OUTPUT ?? 'cpu-bench-results/tournament'
+
+interface Entrant {
+  id: string
+  label: string
+  options: CpuMoveOptions
+}
+
+// "normal" or "normal:greedy" (difficulty, then an optional personality).
+const parseEntrant = (id: string): Entrant => {
+  const [difficulty, personality = 'standard'] = id.trim().split(':') as [CpuDifficulty, CpuPersonality?]
+  if (!(difficulty in CPU_DIFFICULTY_LABELS) || !(personality in CPU_PERSONALITY_LABELS)) {
+    throw new Error(`Unknown tournament player "${id}"`)
+  }
+  return {
+    id: id.trim(),
+    label:
+      personality === 'standard'
+        ? CPU_DIFFICULTY_LABELS[difficulty]
+        : `${CPU_DIFFICULTY_LABELS[difficulty]}/${CPU_PERSONALITY_LABELS[personality]}`,
+    options: { difficulty, personality },
+  }
+}
+
+/**
+ * Every distinct position `plies` moves in (without passes), starting with f5
+ * since all four first moves are equivalent, then `count` of them spread evenly
+ * over that list. The same settings always give the same openings.
+ */
+const enumerateOpenings = (plies: number, count: number): MoveRecord[][] => {
+  const byPosition = new Map<string, MoveRecord[]>()
+  const walk = (position: GamePosition, opening: MoveRecord[]) => {
+    if (opening.length === plies) {
+      const key = `${position.currentDisk}:${position.board.map((cell) => cell ?? '-').join('')}`
+      if (!byPosition.has(key)) byPosition.set(key, opening)
+      return
+    }
+    const moves = opening.length
+      ? [...computeValidMoves(position.board, position.currentDisk).keys()].sort((a, b) => a - b)
+      : [coordinateToIndex('f5') as number]
+    for (const index of moves) {
+      const record: MoveRecord = { disk: position.currentDisk, index }
+      walk(advancePosition(position, record) as GamePosition, [...opening, record])
+    }
+  }
+  walk(createInitialPosition(), [])
+
+  const all = [...byPosition.values()]
+  if (count >= all.length) return all
+  return Array.from({ length: count }, (_, i) => all[Math.floor((i * all.length) / count)])
 }
+
+// Distinct random openings from a seeded generator.
+const seededOpenings = (plies: number, count: number, seed: number): MoveRecord[][] => {
+  const random = createSeededRandom(seed)
+  const openings = new Map<string, MoveRecord[]>()
+  for (let attempt = 0; openings.size < count && attempt < count * 50; attempt += 1) {
+    const opening = randomOpening(plies, random)
+    openings.set(formatMoveList(opening), opening)
+  }
+  return [...openings.values()]
+}
+
+const writeResultFile = (path: string, contents: string) => {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, contents)
+  console.log(`書き出しました: ${path}`)
+}
+
+const runTournament = () => {
+  const entrants = TOURNAMENT_PLAYERS.map(parseEntrant)
+  const openings =
+    TOURNAMENT_OPENING_SET === 'fixed'
+      ? enumerateOpenings(TOURNAMENT_OPENING_PLIES, TOURNAMENT_OPENINGS)
+      : seededOpenings(TOURNAMENT_OPENING_PLIES, TOURNAMENT_OPENINGS, BENCH_SEED)
+  const games: Array<
+    RatedGame & { opening: string; black: string; white: string; scores: GameResult['scores']; seed: number }
+  > = []
+
+  console.log(
+    `トーナメント: ${entrants.map((entrant) => entrant.label).join(', ')} / 序盤 ${openings.length}通り` +
+      ` (${TOURNAMENT_OPENING_PLIES}手, ${TOURNAMENT_OPENING_SET === 'fixed' ? '固定' : 'seed から生成'}) x 先後`,
+  )
+
+  for (let a = 0; a < entrants.length; a += 1) {
+    for (let b = a + 1; b < entrants.length; b += 1) {
+      let points = 0
+      const startedAt = performance.now()
+      for (const opening of openings) {
+        for (const [black, white] of [
+          [a, b],
+          [b, a],
+        ]) {
+          const result = playHeadlessMatch(
+            entrants[black].options,
+            entrants[white].options,
+            opening,
+            deriveSeed(BENCH_SEED, games.length + 1),
+          )
+          const blackScore = result.winner === 'B' ? 1 : result.winner === 'draw' ? 0.5 : 0
+          games.push({
+            first: black,
+            second: white,
+            score: blackScore,
+            opening: formatMoveList(opening),
+            black: entrants[black].id,
+            white: entrants[white].id,
+            scores: result.scores,
+            seed: result.seed,
+          })
+          points += black === a ? blackScore : 1 - blackScore
+        }
+      }
+      console.log(
+        `${entrants[a].label} vs ${entrants[b].label}: ${points} - ${openings.length * 2 - points}` +
+          ` (${((performance.now() - startedAt) / 1000).toFixed(1)}s)`,
+      )
+    }
+  }
+
+  const estimates = estimateElo(entrants.length, games, {
+    resamples: TOURNAMENT_BOOTSTRAP,
+    random: createSeededRandom(deriveSeed(BENCH_SEED, 0)),
+  })
+  const ratings = entrants.map((entrant, i) => {
+    const played = games.filter((game) => game.first === i || game.second === i)
+    const points = played.reduce(
+      (sum, game) => sum + (game.first === i ? game.score : 1 - game.score),
+      0,
+    )
+    return { ...estimates[i], id: entrant.id, label: entrant.label, games: played.length, points }
+  })
+
+  for (const { label, rating, low, high, games: played, points } of ratings) {
+    console.log(
+      `${label}: Elo ${rating.toFixed(0)} (95%: ${low.toFixed(0)}〜${high.toFixed(0)}),` +
+        ` ${points}/${played} (${((points / Math.max(played, 1)) * 100).toFixed(0)}%)`,
+    )
+  }
+  for (let i = 1; i < ratings.length; i += 1) {
+    const [lower, upper] = [ratings[i - 1], ratings[i]]
+    const gap = upper.rating - lower.rating
+    console.log(
+      `${lower.label} → ${upper.label}: ${gap >= 0 ? '+' : ''}${gap.toFixed(0)}` +
+        ` (期待勝率 ${(expectedScore(upper.rating, lower.rating) * 100).toFixed(0)}%)`,
+    )
+  }
+
+  writeResultFile(
+    `${TOURNAMENT_OUTPUT}.json`,
+    `${JSON.stringify(
+      {
+        settings: {
+          players: entrants.map((entrant) => entrant.id),
+          openingPlies: TOURNAMENT_OPENING_PLIES,
+          seed: BENCH_SEED,
+          openingSet: TOURNAMENT_OPENING_SET,
+          bootstrap: TOURNAMENT_BOOTSTRAP,
+          openings: openings.map((opening) => formatMoveList(opening)),
+        },
+        ratings: ratings.map(({ id, rating, low, high, games: played, points }) => ({
+          id,
+          rating: Math.round(rating),
+          low: Math.round(low),
+          high: Math.round(high),
+          games: played,
+          points,
+        })),
+        games: games.map(({ black, white, opening, scores, seed }) => ({
+          black,
+          white,
+          opening,
+          seed,
+          blackDiscs: scores.B,
+          whiteDiscs: scores.W,
+        })),
+      },
+      null,
+      2,
+    )}\n`,
+  )
+  writeResultFile(
+    `${TOURNAMENT_OUTPUT}.csv`,
+    [
+      'player,elo,elo_low,elo_high,games,points',
+      ...ratings.map(({ id, rating, low, high, games: played, points }) =>
+        [id, rating.toFixed(0), low.toFixed(0), high.toFixed(0), played, points].join(','),
+      ),
+    ].join('\n') + '\n',
+  )
+}
+
+console.log(`seed: ${BENCH_SEED} (CPU_BENCH_SEED=${BENCH_SEED} で同じ実行を再現できます)`)
+if (process.env.CPU_BENCH_MODE === 'tournament') runTournament()
+else runScenarios()
@@ -0,0 +1,121 @@
+/** One game between two entrants: `score` is the first entrant's result (1, 0.5 or 0). */
+export interface RatedGame {
+  first: number
+  second: number
+  score: number
+}
+
+export interface EloEstimate {
+  rating: number
+  /** Bounds of the bootstrap confidence interval. */
+  low: number
+  high: number
+}
+
+export interface EloOptions {
+  /** Rating the entrants average to. */
+  base?: number
+  /**
+   * Virtual draws added between every pair, so an entrant that won or lost
+   * every game still gets a finite rating.
+   */
+  priorDraws?: number
+  /** Bootstrap resamples for the interval; 0 reports the point estimate only. */
+  resamples?: number
+  /** Two-sided coverage of the interval, e.g. 0.95. */
+  confidence?: number
+  random?: () => number
+}
+
+const ELO_DEFAULTS: Required<Omit<EloOptions, 'random'>> = {
+  base: 1500,
+  priorDraws: 1,
+  resamples: 200,
+  confidence: 0.95,
+}
+
+const FIT_ITERATIONS = 500
+const FIT_TOLERANCE = 1e-9
+
+/**
+ * Maximum-likelihood Bradley-Terry strengths by the MM algorithm, converted to
+ * the Elo scale (400 points = 10:1 odds). Draws count as half a win each way.
+ */
+export const fitEloRatings = (
+  entrantCount: number,
+  games: RatedGame[],
+  options: Pick<EloOptions, 'base' | 'priorDraws'> = {},
+) => {
+  const { base, priorDraws } = { ...ELO_DEFAULTS, ...options }
+  const points = new Array<number>(entrantCount).fill(0)
+  const meetings = Array.from({ length: entrantCount }, () => new Array<number>(entrantCount).fill(0))
+
+  for (const { first, second, score } of games) {
+    points[first] += score
+    points[second] += 1 - score
+    meetings[first][second] += 1
+    meetings[second][first] += 1
+  }
+  for (let i = 0; i < entrantCount; i += 1) {
+    for (let j = 0; j < entrantCount; j += 1) {
+      if (i === j) continue
+      points[i] += priorDraws / 2
+      meetings[i][j] += priorDraws
+    }
+  }
+
+  let strengths = new Array<number>(entrantCount).fill(1)
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration += 1) {
+    const next = strengths.map((strength, i) => {
+      let denominator = 0
+      for (let j = 0; j < entrantCount; j += 1) {
+        if (meetings[i][j]) denominator += meetings[i][j] / (strength + strengths[j])
+      }
+      return denominator > 0 ? points[i] / denominator : strength
+    })
+    // Pin the geometric mean to 1 so the ratings average to `base`.
+    const logMean = next.reduce((sum, value) => sum + Math.log(value), 0) / entrantCount
+    const scale = Math.exp(logMean)
+    const normalized = next.map((value) => value / scale)
+    const change = Math.max(...normalized.map((value, i) => Math.abs(value - strengths[i])))
+    strengths = normalized
+    if (change < FIT_TOLERANCE) break
+  }
+
+  return strengths.map((strength) => base + 400 * Math.log10(strength))
+}
+
+const percentile = (sorted: number[], fraction: number) => {
+  const position = Math.min(sorted.length - 1, Math.max(0, fraction * (sorted.length - 1)))
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/** Ratings with percentile-bootstrap confidence intervals (games resampled with replacement). */
+export const estimateElo = (
+  entrantCount: number,
+  games: RatedGame[],
+  options: EloOptions = {},
+): EloEstimate[] => {
+  const { resamples, confidence, base, priorDraws } = { ...ELO_DEFAULTS, ...options }
+  const random = options.random ?? Math.random
+  const ratings = fitEloRatings(entrantCount, games, { base, priorDraws })
+  if (!games.length || resamples <= 0) {
+    return ratings.map((rating) => ({ rating, low: rating, high: rating }))
+  }
+
+  const samples = Array.from({ length: entrantCount }, () => [] as number[])
+  for (let round = 0; round < resamples; round += 1) {
+    const resampled = games.map(() => games[Math.floor(random() * games.length)])
+    fitEloRatings(entrantCount, resampled, { base, priorDraws }).forEach((rating, i) => {
+      samples[i].push(rating)
+    })
+  }
+
+  const tail = (1 - confidence) / 2
+  return ratings.map((rating, i) => {
+    const sorted = samples[i].sort((a, b) => a - b)
+    return { rating, low: percentile(sorted, tail), high: percentile(sorted, 1 - tail) }
+  })
+}
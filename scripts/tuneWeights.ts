@@ -0,0 +1,280 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import {
+  chooseCpuMove,
+  scoreCpuMoves,
+  CPU_DIFFICULTY_LABELS,
+  type CpuDifficulty,
+  type CpuMoveOptions,
+} from '../src/lib/cpuPlayer'
+import {
+  createPatternEvaluator,
+  getPatternIndex,
+  getPhase,
+  parsePatternWeights,
+  patternIndexToKey,
+  PATTERNS,
+  type Evaluator,
+  type PatternName,
+  type PatternWeightFile,
+} from '../src/lib/evaluation'
+import {
+  advancePosition,
+  boardToBitboards,
+  computeMoveMask,
+  computeStableMask,
+  computeValidMoves,
+  countDisks,
+  createInitialPosition,
+  nextDisk,
+  popcount,
+  type Bitboard,
+  type Disk,
+  type GamePosition,
+} from '../shared/othello'
+import { createRandomSeed, createSeededRandom, parseSeed } from '../shared/random'
+
+const SELFPLAY_GAMES = Number(process.env.TUNE_GAMES ?? 200)
+const SELFPLAY_DIFFICULTY = (process.env.TUNE_SELFPLAY_DIFFICULTY ?? 'normal') as CpuDifficulty
+const RANDOM_OPENING_PLIES = Number(process.env.TUNE_RANDOM_PLIES ?? 6)
+// 'outcome' labels every position with the final result; 'search' solves the last TUNE_EXACT_EMPTIES exactly.
+const LABEL_MODE = process.env.TUNE_LABEL === 'search' ? 'search' : 'outcome'
+const EXACT_EMPTIES = Number(process.env.TUNE_EXACT_EMPTIES ?? 10)
+// Disc differences are multiplied by this so targets land on the evaluator's scale (a corner is ~100).
+const TARGET_SCALE = Number(process.env.TUNE_TARGET_SCALE ?? 4)
+const EPOCHS = Number(process.env.TUNE_EPOCHS ?? 20)
+const LEARNING_RATE = Number(process.env.TUNE_LEARNING_RATE ?? 1)
+const REGULARIZATION = Number(process.env.TUNE_REGULARIZATION ?? 20)
+const EVAL_GAMES = Number(process.env.TUNE_EVAL_GAMES ?? 10)
+const EVAL_OPPONENTS = (process.env.TUNE_OPPONENTS ?? 'normal,hard').split(',') as CpuDifficulty[]
+const INPUT_PATH = process.env.TUNE_INPUT ?? 'src/lib/patternWeights.json'
+const OUTPUT_PATH = process.env.TUNE_OUTPUT ?? 'patternWeights.tuned.json'
+const SEED = parseSeed(process.env.TUNE_SEED) ?? createRandomSeed()
+// Random openings and the CPUs' own random choices all come from here.
+const random = createSeededRandom(SEED)
+
+const PATTERN_NAMES = Object.keys(PATTERNS) as PatternName[]
+const INSTANCE_COUNT = PATTERN_NAMES.reduce((sum, name) => sum + PATTERNS[name].length, 0)
+
+interface TrainingPosition {
+  player: Bitboard
+  opponent: Bitboard
+  target: number
+}
+
+const randomEntry = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+
+const toPerspective = (position: GamePosition) => {
+  const bitboards = boardToBitboards(position.board)
+  return {
+    player: bitboards[position.currentDisk],
+    opponent: bitboards[nextDisk(position.currentDisk)],
+  }
+}
+
+const playSelfPlayGame = () => {
+  let position = createInitialPosition()
+  const seen: GamePosition[] = []
+
+  for (let ply = 0; ; ply += 1) {
+    const moves = computeValidMoves(position.board, position.currentDisk)
+    let index: number | null = null
+    if (moves.size) {
+      seen.push(position)
+      index =
+        ply < RANDOM_OPENING_PLIES
+          ? randomEntry([...moves.keys()])
+          : chooseCpuMove(position.board, position.currentDisk, {
+              difficulty: SELFPLAY_DIFFICULTY,
+              random,
+            }).move
+    }
+    const next = advancePosition(position, { disk: position.currentDisk, index })
+    if (!next) break
+    position = next
+  }
+
+  const scores = countDisks(position.board)
+  return { seen, finalDiff: (disk: Disk) => scores[disk] - scores[nextDisk(disk)] }
+}
+
+const labelPosition = (position: GamePosition, outcome: number) => {
+  if (LABEL_MODE === 'search') {
+    const empties = position.board.filter((cell) => cell === null).length
+    if (empties <= EXACT_EMPTIES) {
+      const [best] = scoreCpuMoves(position.board, position.currentDisk, {
+        difficulty: 'normal',
+        endgameEmptiesOverride: EXACT_EMPTIES,
+      })
+      return best.score
+    }
+  }
+  return outcome
+}
+
+const collectTrainingSet = () => {
+  const positions: TrainingPosition[] = []
+  const startedAt = performance.now()
+  for (let game = 0; game < SELFPLAY_GAMES; game += 1) {
+    const { seen, finalDiff } = playSelfPlayGame()
+    for (const position of seen) {
+      const label = labelPosition(position, finalDiff(position.currentDisk))
+      positions.push({ ...toPerspective(position), target: label * TARGET_SCALE })
+    }
+  }
+  console.log(
+    `自己対局 ${SELFPLAY_GAMES}局 (${CPU_DIFFICULTY_LABELS[SELFPLAY_DIFFICULTY]}, ラベル: ${LABEL_MODE}):` +
+      ` ${positions.length}局面, ${((performance.now() - startedAt) / 1000).toFixed(1)}s`,
+  )
+  return positions
+}
+
+const meanSquaredError = (evaluator: Evaluator, positions: TrainingPosition[]) =>
+  positions.reduce((sum, { player, opponent, target }) => {
+    const residual = target - evaluator.evaluate(player, opponent)
+    return sum + residual * residual
+  }, 0) / Math.max(positions.length, 1)
+
+const getMobility = (player: Bitboard, opponent: Bitboard) =>
+  popcount(computeMoveMask(player, opponent)) - popcount(computeMoveMask(opponent, player))
+
+const getStability = (player: Bitboard, opponent: Bitboard) =>
+  popcount(computeStableMask(player, opponent)) - popcount(computeStableMask(opponent, player))
+
+// Scalar terms refitted like one extra pattern: their weight per phase and the feature they scale.
+const SCALAR_TERMS = [
+  { key: 'mobility', feature: getMobility },
+  { key: 'stability', feature: getStability },
+] as const
+
+/**
+ * Batch least-squares fit: each epoch spreads every position's residual over
+ * the pattern configurations it contains (shrunk towards zero for rarely seen
+ * ones) and refits the mobility and stability weights of its phase.
+ */
+const fitWeights = (initial: PatternWeightFile, positions: TrainingPosition[]) => {
+  const weights: PatternWeightFile = structuredClone(initial)
+
+  for (let epoch = 0; epoch < EPOCHS; epoch += 1) {
+    const evaluator = createPatternEvaluator(weights)
+    const sums = PATTERN_NAMES.map(() =>
+      Array.from({ length: weights.phaseCount }, () => new Map<number, { residual: number; count: number }>()),
+    )
+    const scalars = SCALAR_TERMS.map(() =>
+      Array.from({ length: weights.phaseCount }, () => ({ numerator: 0, denominator: 0 })),
+    )
+
+    for (const { player, opponent, target } of positions) {
+      const phase = getPhase(player, opponent, weights.phaseCount)
+      const residual = target - evaluator.evaluate(player, opponent)
+      PATTERN_NAMES.forEach((name, patternIndex) => {
+        for (const cells of PATTERNS[name]) {
+          const index = getPatternIndex(player, opponent, cells)
+          const entry = sums[patternIndex][phase].get(index) ?? { residual: 0, count: 0 }
+          entry.residual += residual
+          entry.count += 1
+          sums[patternIndex][phase].set(index, entry)
+        }
+      })
+      SCALAR_TERMS.forEach(({ feature }, term) => {
+        const value = feature(player, opponent)
+        scalars[term][phase].numerator += residual * value
+        scalars[term][phase].denominator += value * value
+      })
+    }
+
+    PATTERN_NAMES.forEach((name, patternIndex) => {
+      const length = PATTERNS[name][0].length
+      sums[patternIndex].forEach((entries, phase) => {
+        const table = weights.patterns[name][phase]
+        for (const [index, { residual, count }] of entries) {
+          const key = patternIndexToKey(index, length)
+          const delta =
+            (LEARNING_RATE * residual) / (count + REGULARIZATION) / (INSTANCE_COUNT + 2)
+          table[key] = (table[key] ?? 0) + delta
+        }
+      })
+    })
+    SCALAR_TERMS.forEach(({ key }, term) => {
+      scalars[term].forEach(({ numerator, denominator }, phase) => {
+        if (denominator > 0) {
+          weights[key][phase] += (LEARNING_RATE * numerator) / denominator / (INSTANCE_COUNT + 2)
+        }
+      })
+    })
+
+    if (epoch === 0 || epoch === EPOCHS - 1 || (epoch + 1) % 5 === 0) {
+      const error = meanSquaredError(createPatternEvaluator(weights), positions)
+      console.log(`  epoch ${epoch + 1}/${EPOCHS}: RMSE ${Math.sqrt(error).toFixed(2)}`)
+    }
+  }
+
+  return weights
+}
+
+// Rounds corrections and drops the negligible ones so the file stays sparse and diffable.
+const compactWeights = (weights: PatternWeightFile): PatternWeightFile => ({
+  ...weights,
+  mobility: weights.mobility.map((value) => Math.round(value * 100) / 100),
+  stability: weights.stability.map((value) => Math.round(value * 100) / 100),
+  patterns: Object.fromEntries(
+    PATTERN_NAMES.map((name) => [
+      name,
+      weights.patterns[name].map((table) =>
+        Object.fromEntries(
+          Object.entries(table)
+            .map(([key, value]) => [key, Math.round(value * 100) / 100] as const)
+            .filter(([, value]) => Math.abs(value) >= 0.5)
+            .sort(([a], [b]) => a.localeCompare(b)),
+        ),
+      ),
+    ]),
+  ) as PatternWeightFile['patterns'],
+})
+
+const playMatch = (black: CpuMoveOptions, white: CpuMoveOptions) => {
+  let position = createInitialPosition()
+  for (;;) {
+    const moves = computeValidMoves(position.board, position.currentDisk)
+    const options = position.currentDisk === 'B' ? black : white
+    const index = moves.size
+      ? chooseCpuMove(position.board, position.currentDisk, { ...options, random }).move
+      : null
+    const next = advancePosition(position, { disk: position.currentDisk, index })
+    if (!next) break
+    position = next
+  }
+  const scores = countDisks(position.board)
+  return scores.B - scores.W
+}
+
+// Win rate of the pattern evaluator against the unmodified preset, playing both colours.
+const measureWinRate = (evaluator: Evaluator, difficulty: CpuDifficulty) => {
+  let points = 0
+  for (let game = 0; game < EVAL_GAMES; game += 1) {
+    const asBlack = game % 2 === 0
+    const tuned = { difficulty, customEvaluator: evaluator }
+    const preset = { difficulty }
+    const diff = asBlack ? playMatch(tuned, preset) : -playMatch(preset, tuned)
+    points += diff > 0 ? 1 : diff === 0 ? 0.5 : 0
+  }
+  return points / Math.max(EVAL_GAMES, 1)
+}
+
+console.log(`seed: ${SEED} (TUNE_SEED=${SEED} で同じ自己対局を再現できます)`)
+const initialWeights = parsePatternWeights(JSON.parse(readFileSync(INPUT_PATH, 'utf8')))
+const positions = collectTrainingSet()
+const before = createPatternEvaluator(initialWeights)
+console.log(`学習前 RMSE: ${Math.sqrt(meanSquaredError(before, positions)).toFixed(2)}`)
+
+const tunedWeights = compactWeights(fitWeights(initialWeights, positions))
+const after = createPatternEvaluator(parsePatternWeights(tunedWeights))
+writeFileSync(OUTPUT_PATH, `${JSON.stringify(tunedWeights, null, 2)}\n`)
+console.log(`重みファイルを書き出しました: ${OUTPUT_PATH}`)
+
+for (const difficulty of EVAL_OPPONENTS) {
+  const beforeRate = measureWinRate(before, difficulty)
+  const afterRate = measureWinRate(after, difficulty)
+  console.log(
+    `対 ${CPU_DIFFICULTY_LABELS[difficulty]} (${EVAL_GAMES}局): 勝率 ${(beforeRate * 100).toFixed(0)}% → ${(afterRate * 100).toFixed(0)}%`,
+  )
+}
@@ -0,0 +1,41 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+/** A lightweight player account: no password, just a name and the signed token that proves it. */
+export interface Account {
+  id: string
+  nickname: string
+  createdAt: number
+  /** Elo rating, moved only by ranked games. */
+  rating: number
+  ratedGames: number
+}
+
+const GUEST_SUFFIX_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const GUEST_SUFFIX_LENGTH = 4
+
+export const createTokenSecret = () => randomBytes(32).toString('base64url')
+
+const signAccountId = (secret: string, accountId: string) =>
+  createHmac('sha256', secret).update(accountId).digest('base64url')
+
+/** `<account id>.<HMAC of the id>`: whoever holds it signs in as that account, on any device. */
+export const createAccountToken = (secret: string, accountId: string) =>
+  `${accountId}.${signAccountId(secret, accountId)}`
+
+/** Returns the account id a token was issued for, or null if this secret did not sign it. */
+export const verifyAccountToken = (secret: string, token: string) => {
+  const separator = token.lastIndexOf('.')
+  if (separator <= 0) return null
+  const accountId = token.slice(0, separator)
+  const signature = Buffer.from(token.slice(separator + 1))
+  const expected = Buffer.from(signAccountId(secret, accountId))
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null
+  return accountId
+}
+
+/** The name a new account starts with until its owner picks one, e.g. `Guest-K7QM`. */
+export const createGuestNickname = (random: () => number) =>
+  `Guest-${Array.from(
+    { length: GUEST_SUFFIX_LENGTH },
+    () => GUEST_SUFFIX_ALPHABET[Math.floor(random() * GUEST_SUFFIX_ALPHABET.length)],
+  ).join('')}`
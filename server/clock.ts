@@ -0,0 +1,22 @@
+import type { Disk } from '../shared/othello.js'
+import type { TimeControl } from '../shared/protocol.js'
+
+/** Main time for both sides at the start of a game. */
+export const createClocks = (timeControl: TimeControl): Record<Disk, number> => ({
+  B: timeControl.initialMs,
+  W: timeControl.initialMs,
+})
+
+/** When the side to move, with `remainingMs` of main time at `turnStartedAt`, runs out. */
+export const clockDeadline = (timeControl: TimeControl, remainingMs: number, turnStartedAt: number) =>
+  turnStartedAt + remainingMs + (timeControl.kind === 'byoyomi' ? timeControl.periodMs : 0)
+
+/**
+ * Main time left after a move that took `elapsedMs`, which must be within the
+ * deadline. Fischer adds the increment back; byo-yomi spends main time first
+ * and then leaves it at zero, since a move inside the period resets the period.
+ */
+export const chargeMove = (timeControl: TimeControl, remainingMs: number, elapsedMs: number) =>
+  timeControl.kind === 'fischer'
+    ? Math.max(0, remainingMs - elapsedMs) + timeControl.incrementMs
+    : Math.max(0, remainingMs - elapsedMs)
@@ -1,68 +1,141 @@
 import { createServer } from 'node:http'
-import { randomUUID } from 'node:crypto'
+import { randomInt, randomUUID } from 'node:crypto'
 import { WebSocketServer, WebSocket } from 'ws'
 import {
-  applyMove,
+  advancePosition,
   computeValidMoves,
   countDisks,
-  createInitialBoard,
+  createInitialPosition,
   DISK_LABEL,
   nextDisk,
-  type Cell,
+  replayMoves,
   type Disk,
+  type GamePosition,
+  type MoveRecord,
 } from '../shared/othello.js'
-
-type ClientStatus = 'idle' | 'queue' | 'waiting' | 'playing' | 'spectating'
-type ClientRole = 'player' | 'spectator' | null
+import { chooseCpuMove, type CpuDifficulty } from '../src/lib/cpuPlayer.js'
+import {
+  encodeMessage,
+  isCpuDifficulty,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  unhandledMessage,
+  type ClientMessage,
+  type MatchEndReason,
+  type MatchStatePayload,
+  type MatchWinner,
+  type ServerMessage,
+  type ServerMessageType,
+  type ServerPayloads,
+  type TimeControl,
+} from '../shared/protocol.js'
+import { createRandomSeed, createSeededRandom, deriveSeed, parseSeed } from '../shared/random.js'
+import {
+  createAccountToken,
+  createGuestNickname,
+  createTokenSecret,
+  verifyAccountToken,
+  type Account,
+} from './accounts.js'
+import { chargeMove, clockDeadline, createClocks } from './clock.js'
+import { INITIAL_RATING, rateGame, ratingWindow } from './ratings.js'
+import {
+  createFileStorage,
+  createMemoryStorage,
+  SNAPSHOT_FORMAT_VERSION,
+  type ClientRole,
+  type ClientStatus,
+  type RoomStatus,
+  type ServerSnapshot,
+  type StoredClient,
+  type StoredQueueEntry,
+  type StoredRoom,
+} from './storage.js'
 
 type PlayerSlots = Record<Disk, string | null>
 
-type WinnerFlag = Disk | 'draw' | null
-
 interface RoomState {
   key: string
-  board: Cell[]
-  currentDisk: Disk
-  lastMove: number | null
+  moves: MoveRecord[]
+  /** Position reached by `moves`; only ever advanced through `recordRoomMove`. */
+  position: GamePosition
   players: PlayerSlots
   spectators: Set<string>
-  status: 'waiting' | 'playing' | 'finished'
+  status: RoomStatus
   statusMessage: string
   createdAt: number
-  winner: WinnerFlag
+  winner: MatchWinner
   turnDeadline: number | null
+  /** Seeds the bot's random choices for this game; the move at ply n uses `deriveSeed(seed, n)`. */
+  seed: number
+  ranked: boolean
+  /** Set when a ranked game between two accounts starts; cleared once its result is rated. */
+  ratedPlayers: Record<Disk, string> | null
+  /** Null for rooms on the flat `TURN_TIMEOUT_MS` limit per move. */
+  timeControl: TimeControl | null
+  /** Main time left per side; the side to move's figure is as of `turnStartedAt`. */
+  clocks: Record<Disk, number> | null
+  turnStartedAt: number | null
+}
+
+interface RoomOptions {
+  ranked?: boolean
+  timeControl?: TimeControl | null
+}
+
+type QueueEntry = StoredQueueEntry
+
+interface BotState {
+  difficulty: CpuDifficulty
+  moveTimer: NodeJS.Timeout | null
 }
 
 interface ClientMeta {
+  /** The account id for players; `bot:`-prefixed for server-side bots. */
   id: string
-  socket: WebSocket
+  /** Null for server-side bots, which never hold a connection. */
+  socket: WebSocket | null
   status: ClientStatus
   roomKey: string | null
   role: ClientRole
   disk: Disk | null
   disconnectTimer: NodeJS.Timeout | null
-}
-
-interface MessagePayload {
-  type: string
-  payload?: Record<string, unknown>
-}
-
-interface MatchStatePayload {
-  matchKey: string
-  board: Cell[]
-  currentDisk: Disk
-  lastMove: number | null
-  scores: Record<Disk, number>
-  spectators: number
-  statusMessage: string
-  winner: WinnerFlag
-  turnDeadline: number | null
+  bot: BotState | null
 }
 
 const PORT = Number(process.env.MATCH_SERVER_PORT ?? process.env.PORT ?? 8787)
 const TURN_TIMEOUT_MS = Number(process.env.MATCH_TURN_TIMEOUT_MS ?? 180000)
 const DISCONNECT_GRACE_MS = Number(process.env.MATCH_DISCONNECT_GRACE_MS ?? 15000)
+const BOT_MOVE_DELAY_MS = Number(process.env.MATCH_BOT_MOVE_DELAY_MS ?? 400)
+// Bots search on the server's event loop, so every difficulty gets a hard time cap.
+const BOT_TIME_LIMIT_MS = Number(process.env.MATCH_BOT_TIME_LIMIT_MS ?? 800)
+// 0 disables handing a lone random-queue entrant to a bot.
+const RANDOM_BOT_FALLBACK_MS = Number(process.env.MATCH_RANDOM_BOT_FALLBACK_MS ?? 0)
+// A ranked entrant first accepts opponents this many points either side of their rating…
+const RATING_WINDOW_BASE = Number(process.env.MATCH_RATING_WINDOW ?? 100)
+// …and this many more for every second spent waiting.
+const RATING_WINDOW_GROWTH = Number(process.env.MATCH_RATING_WINDOW_GROWTH ?? 10)
+const RANDOM_BOT_DIFFICULTY: CpuDifficulty = isCpuDifficulty(process.env.MATCH_RANDOM_BOT_DIFFICULTY)
+  ? process.env.MATCH_RANDOM_BOT_DIFFICULTY
+  : 'normal'
+
+// Live rooms are written here so a restart or deploy resumes them; MATCH_STORAGE=memory opts out.
+const STORAGE_FILE = process.env.MATCH_STORAGE_FILE ?? 'server-data/match-state.json'
+const storage =
+  process.env.MATCH_STORAGE === 'memory' ? createMemoryStorage() : createFileStorage(STORAGE_FILE)
+// Saves within this window are coalesced into one write.
+const STORAGE_FLUSH_MS = Number(process.env.MATCH_STORAGE_FLUSH_MS ?? 100)
+// Everyone is offline after a restart, so restored seats are held longer than a normal disconnect.
+const RESTORE_GRACE_MS = Number(process.env.MATCH_RESTORE_GRACE_MS ?? 60000)
+
+// Fix to reproduce colour draws, queue pairings and bot games; logged at startup either way.
+const RANDOM_SEED = parseSeed(process.env.MATCH_RANDOM_SEED) ?? createRandomSeed()
+const serverRandom = createSeededRandom(RANDOM_SEED)
+
+// Pins the key that signs account tokens; otherwise one is generated and kept with the stored state.
+const TOKEN_SECRET_OVERRIDE = process.env.MATCH_TOKEN_SECRET || null
+let tokenSecret = createTokenSecret()
+const signingSecret = () => TOKEN_SECRET_OVERRIDE ?? tokenSecret
 
 const httpServer = createServer()
 const wss = new WebSocketServer({ server: httpServer })
@@ -70,45 +143,90 @@ const wss = new WebSocketServer({ server: httpServer })
 const rooms = new Map<string, RoomState>()
 const clientsBySocket = new Map<WebSocket, ClientMeta>()
 const clientsById = new Map<string, ClientMeta>()
-const randomQueue: string[] = []
+const randomQueue: QueueEntry[] = []
+const accounts = new Map<string, Account>()
+// Accounts nobody has renamed or played a rated game with yet. They live only as
+// long as their session, so a visit that goes nowhere leaves nothing in the snapshot.
+const guestAccounts = new Map<string, Account>()
+const randomQueueBotTimers = new Map<string, NodeJS.Timeout>()
 
 const MATCH_KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
 const MATCH_KEY_LENGTH = 6
 
+// Keys admit anyone who holds them, so they come from the CSPRNG rather than the logged seed.
 const createMatchKey = () =>
   Array.from({ length: MATCH_KEY_LENGTH }, () =>
-    MATCH_KEY_ALPHABET[Math.floor(Math.random() * MATCH_KEY_ALPHABET.length)],
+    MATCH_KEY_ALPHABET[randomInt(MATCH_KEY_ALPHABET.length)],
   ).join('')
 
 const toStatePayload = (room: RoomState): MatchStatePayload => ({
   matchKey: room.key,
-  board: room.board,
-  currentDisk: room.currentDisk,
-  lastMove: room.lastMove,
-  scores: countDisks(room.board),
+  board: room.position.board,
+  currentDisk: room.position.currentDisk,
+  lastMove: room.position.lastMove,
+  moves: room.moves,
+  scores: countDisks(room.position.board),
   spectators: room.spectators.size,
   statusMessage: room.statusMessage,
   winner: room.winner,
   turnDeadline: room.turnDeadline,
+  timeControl: room.timeControl,
+  clocks: room.clocks ? { ...room.clocks } : null,
+  names: { B: seatName(room.players.B), W: seatName(room.players.W) },
+  ranked: room.ranked,
+  ratings: { B: seatRating(room.players.B), W: seatRating(room.players.W) },
+  bot: findRoomBot(room),
 })
 
-const send = (socket: WebSocket, type: string, payload: Record<string, unknown> = {}) => {
-  if (socket.readyState !== WebSocket.OPEN) return
-  const message: MessagePayload = { type, payload }
-  socket.send(JSON.stringify(message))
+const findAccount = (id: string) => accounts.get(id) ?? guestAccounts.get(id)
+
+// Keeps a guest account for good once it has a chosen name or a rating worth saving.
+const keepAccount = (account: Account) => {
+  guestAccounts.delete(account.id)
+  accounts.set(account.id, account)
+}
+
+const seatName = (clientId: string | null) => {
+  if (!clientId) return null
+  const bot = clientsById.get(clientId)?.bot
+  if (bot) return `CPU (${bot.difficulty})`
+  return findAccount(clientId)?.nickname ?? null
+}
+
+const seatRating = (clientId: string | null) => findAccount(clientId ?? '')?.rating ?? null
+
+const findRoomBot = (room: RoomState): MatchStatePayload['bot'] => {
+  for (const disk of ['B', 'W'] as Disk[]) {
+    const bot = clientsById.get(room.players[disk] ?? '')?.bot
+    if (bot) return { disk, difficulty: bot.difficulty, seed: room.seed }
+  }
+  return null
+}
+
+const send = <T extends ServerMessageType>(
+  socket: WebSocket | null,
+  type: T,
+  payload: ServerPayloads[T],
+) => {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return
+  socket.send(encodeMessage({ type, payload } as ServerMessage))
 }
 
-const sendById = (clientId: string | null, type: string, payload: Record<string, unknown> = {}) => {
+const sendById = <T extends ServerMessageType>(
+  clientId: string | null,
+  type: T,
+  payload: ServerPayloads[T],
+) => {
   if (!clientId) return
   const meta = clientsById.get(clientId)
   if (!meta) return
   send(meta.socket, type, payload)
 }
 
-const broadcastRoom = (
+const broadcastRoom = <T extends ServerMessageType>(
   room: RoomState,
-  type: string,
-  payload: Record<string, unknown> = {},
+  type: T,
+  payload: ServerPayloads[T],
 ) => {
   for (const disk of Object.keys(room.players) as Disk[]) {
     sendById(room.players[disk], type, payload)
@@ -118,8 +236,16 @@ const broadcastRoom = (
   }
 }
 
+const clearQueueBotTimer = (clientId: string) => {
+  const timer = randomQueueBotTimers.get(clientId)
+  if (!timer) return
+  clearTimeout(timer)
+  randomQueueBotTimers.delete(clientId)
+}
+
 const removeFromQueue = (clientId: string) => {
-  const index = randomQueue.indexOf(clientId)
+  clearQueueBotTimer(clientId)
+  const index = randomQueue.findIndex((entry) => entry.id === clientId)
   if (index >= 0) randomQueue.splice(index, 1)
 }
 
@@ -127,6 +253,11 @@ const releaseClient = (clientId: string | null) => {
   if (!clientId) return
   const meta = clientsById.get(clientId)
   if (!meta) return
+  if (meta.bot) {
+    if (meta.bot.moveTimer) clearTimeout(meta.bot.moveTimer)
+    clientsById.delete(meta.id)
+    return
+  }
   meta.status = 'idle'
   meta.role = null
   meta.roomKey = null
@@ -144,12 +275,25 @@ const releaseRoomOccupants = (room: RoomState) => {
   room.spectators.clear()
 }
 
+// Starts the side to move's time: its chess clock if the room has one, otherwise the flat limit.
 const refreshTurnDeadline = (room: RoomState) => {
-  if (room.status === 'playing') {
-    room.turnDeadline = Date.now() + TURN_TIMEOUT_MS
-  } else {
+  if (room.status !== 'playing') {
     room.turnDeadline = null
+    room.turnStartedAt = null
+    return
   }
+  const now = Date.now()
+  room.turnStartedAt = now
+  room.turnDeadline =
+    room.timeControl && room.clocks
+      ? clockDeadline(room.timeControl, room.clocks[room.position.currentDisk], now)
+      : now + TURN_TIMEOUT_MS
+}
+
+// Takes the time a move used off the mover's clock, before the turn passes on.
+const chargeClock = (room: RoomState, disk: Disk, now: number) => {
+  if (!room.timeControl || !room.clocks || room.turnStartedAt === null) return
+  room.clocks[disk] = chargeMove(room.timeControl, room.clocks[disk], now - room.turnStartedAt)
 }
 
 const rehydrateSession = (meta: ClientMeta) => {
@@ -161,7 +305,11 @@ const rehydrateSession = (meta: ClientMeta) => {
   }
 
   if (meta.status === 'waiting' && meta.roomKey && meta.disk) {
-    send(meta.socket, 'match:waiting', { matchKey: meta.roomKey, yourDisk: meta.disk })
+    send(meta.socket, 'match:waiting', {
+      matchKey: meta.roomKey,
+      yourDisk: meta.disk,
+      ranked: rooms.get(meta.roomKey)?.ranked ?? false,
+    })
     return
   }
 
@@ -178,7 +326,7 @@ const rehydrateSession = (meta: ClientMeta) => {
   const state = toStatePayload(room)
   send(meta.socket, 'match:start', {
     youAre: meta.role === 'spectator' ? 'spectator' : 'player',
-    yourDisk: meta.disk,
+    yourDisk: meta.disk ?? undefined,
     matchKey: room.key,
     state,
   })
@@ -186,8 +334,9 @@ const rehydrateSession = (meta: ClientMeta) => {
 
 const handleTimeout = (room: RoomState) => {
   if (room.status !== 'playing' || !room.turnDeadline) return
-  const loser = room.currentDisk
+  const loser = room.position.currentDisk
   const winner = nextDisk(loser)
+  if (room.clocks) room.clocks[loser] = 0
   room.status = 'finished'
   room.winner = winner
   room.statusMessage = winner
@@ -202,24 +351,24 @@ const deriveStatusMessage = (room: RoomState) => {
     if (room.winner === 'draw') {
       room.statusMessage = 'Game over — it\'s a draw.'
     } else if (room.winner) {
-      const scores = countDisks(room.board)
+      const scores = countDisks(room.position.board)
       room.statusMessage = `${DISK_LABEL[room.winner]} wins ${scores.B}-${scores.W}.`
     }
     return
   }
 
-  const currentMoves = computeValidMoves(room.board, room.currentDisk)
+  const currentMoves = computeValidMoves(room.position.board, room.position.currentDisk)
   if (currentMoves.size > 0) {
-    room.statusMessage = `${DISK_LABEL[room.currentDisk]} to move.`
+    room.statusMessage = `${DISK_LABEL[room.position.currentDisk]} to move.`
     return
   }
 
-  const alternate = nextDisk(room.currentDisk)
-  const alternateMoves = computeValidMoves(room.board, alternate)
+  const alternate = nextDisk(room.position.currentDisk)
+  const alternateMoves = computeValidMoves(room.position.board, alternate)
 
   if (alternateMoves.size === 0) {
     room.status = 'finished'
-    const scores = countDisks(room.board)
+    const scores = countDisks(room.position.board)
     if (scores.B === scores.W) {
       room.winner = 'draw'
       room.statusMessage = 'Game over — it\'s a draw.'
@@ -231,9 +380,17 @@ const deriveStatusMessage = (room: RoomState) => {
     return
   }
 
-  const passingDisk = room.currentDisk
-  room.currentDisk = alternate
-  room.statusMessage = `${DISK_LABEL[passingDisk]} has no moves. ${DISK_LABEL[room.currentDisk]} plays again.`
+  const passingDisk = room.position.currentDisk
+  recordRoomMove(room, { disk: passingDisk, index: null })
+  room.statusMessage = `${DISK_LABEL[passingDisk]} has no moves. ${DISK_LABEL[room.position.currentDisk]} plays again.`
+}
+
+const recordRoomMove = (room: RoomState, record: MoveRecord) => {
+  const position = advancePosition(room.position, record)
+  if (!position) return false
+  room.moves.push(record)
+  room.position = position
+  return true
 }
 
 const ensureRoomTurn = (room: RoomState) => {
@@ -241,11 +398,10 @@ const ensureRoomTurn = (room: RoomState) => {
   deriveStatusMessage(room)
 }
 
-const createRoom = (): RoomState => ({
+const createRoom = ({ ranked = false, timeControl = null }: RoomOptions = {}): RoomState => ({
   key: createMatchKey(),
-  board: createInitialBoard(),
-  currentDisk: 'B',
-  lastMove: null,
+  moves: [],
+  position: createInitialPosition(),
   players: { B: null, W: null },
   spectators: new Set<string>(),
   status: 'waiting',
@@ -253,15 +409,61 @@ const createRoom = (): RoomState => ({
   createdAt: Date.now(),
   winner: null,
   turnDeadline: null,
+  seed: createRandomSeed(serverRandom),
+  ranked,
+  ratedPlayers: null,
+  timeControl,
+  clocks: null,
+  turnStartedAt: null,
 })
 
+const createBot = (difficulty: CpuDifficulty): ClientMeta => {
+  const bot: ClientMeta = {
+    id: `bot:${randomUUID()}`,
+    socket: null,
+    status: 'idle',
+    roomKey: null,
+    role: null,
+    disk: null,
+    disconnectTimer: null,
+    bot: { difficulty, moveTimer: null },
+  }
+  clientsById.set(bot.id, bot)
+  return bot
+}
+
+// Plays the bot's turn after a short delay, through the same handleMove path as a human.
+const scheduleBotTurn = (room: RoomState) => {
+  if (room.status !== 'playing') return
+  const meta = clientsById.get(room.players[room.position.currentDisk] ?? '')
+  if (!meta?.bot || meta.bot.moveTimer) return
+  const bot = meta.bot
+  bot.moveTimer = setTimeout(() => {
+    bot.moveTimer = null
+    if (rooms.get(room.key) !== room || room.status !== 'playing') return
+    if (room.position.currentDisk !== meta.disk) return
+    const result = chooseCpuMove(room.position.board, room.position.currentDisk, {
+      difficulty: bot.difficulty,
+      timeLimitMs: BOT_TIME_LIMIT_MS,
+      seed: deriveSeed(room.seed, room.moves.length),
+    })
+    if (result.move === null) return
+    handleMove(meta, result.move)
+    schedulePersist()
+  }, BOT_MOVE_DELAY_MS)
+}
+
 const startRoom = (room: RoomState) => {
-  room.board = createInitialBoard()
-  room.currentDisk = 'B'
-  room.lastMove = null
+  room.moves = []
+  room.position = createInitialPosition()
   room.status = 'playing'
   room.statusMessage = 'Black to move first.'
   room.winner = null
+  room.seed = createRandomSeed(serverRandom)
+  const { B: black, W: white } = room.players
+  room.ratedPlayers =
+    room.ranked && black && white && findAccount(black) && findAccount(white) ? { B: black, W: white } : null
+  room.clocks = room.timeControl ? createClocks(room.timeControl) : null
   refreshTurnDeadline(room)
 }
 
@@ -277,10 +479,34 @@ const assignPlayer = (room: RoomState, clientId: string, diskPreference?: Disk)
   return openSlot
 }
 
-const cleanupRoom = (room: RoomState, reason = 'completed') => {
+/**
+ * Moves both ratings by a ranked game's result. Whoever left or ran out of
+ * time has `room.winner` against them already, so both count as losses.
+ */
+const rateRoomResult = (room: RoomState) => {
+  const rated = room.ratedPlayers
+  room.ratedPlayers = null
+  const black = findAccount(rated?.B ?? '')
+  const white = findAccount(rated?.W ?? '')
+  if (!black || !white || !room.winner) return undefined
+  const changes = rateGame({ B: black.rating, W: white.rating }, room.winner)
+  for (const [account, change] of [[black, changes.B], [white, changes.W]] as const) {
+    account.rating += change
+    account.ratedGames += 1
+    keepAccount(account)
+  }
+  return { changes, players: [black, white] }
+}
+
+const cleanupRoom = (room: RoomState, reason: MatchEndReason = 'completed') => {
   room.turnDeadline = null
+  const rated = rateRoomResult(room)
   const state = toStatePayload(room)
-  broadcastRoom(room, 'match:end', { reason, state })
+  broadcastRoom(room, 'match:end', rated ? { reason, state, ratingChanges: rated.changes } : { reason, state })
+  // Both players hear their new rating, including one who already left the room.
+  for (const account of rated?.players ?? []) {
+    sendById(account.id, 'profile', toAccountPayload(account))
+  }
   releaseRoomOccupants(room)
   rooms.delete(room.key)
 }
@@ -292,18 +518,21 @@ const handleMove = (meta: ClientMeta, index: number) => {
   if (!room) return
   let roomStatus: RoomState['status'] = room.status
   if (roomStatus !== 'playing') return
-  if (room.currentDisk !== meta.disk) return
+  if (room.position.currentDisk !== meta.disk) return
+
+  // The server's clock decides: a move that arrives after the flag fell loses, even before the sweep notices.
+  const now = Date.now()
+  if (room.turnDeadline !== null && now >= room.turnDeadline) {
+    handleTimeout(room)
+    return
+  }
 
-  const validMoves = computeValidMoves(room.board, room.currentDisk)
-  const flips = validMoves.get(index)
-  if (!flips) {
+  if (!recordRoomMove(room, { disk: meta.disk, index })) {
     send(meta.socket, 'error', { message: 'Invalid move.' })
     return
   }
+  chargeClock(room, meta.disk, now)
 
-  room.board = applyMove(room.board, index, room.currentDisk, flips)
-  room.lastMove = index
-  room.currentDisk = nextDisk(room.currentDisk)
   ensureRoomTurn(room)
   roomStatus = room.status
   refreshTurnDeadline(room)
@@ -313,7 +542,9 @@ const handleMove = (meta: ClientMeta, index: number) => {
 
   if (roomStatus === 'finished') {
     cleanupRoom(room)
+    return
   }
+  scheduleBotTurn(room)
 }
 
 const handleSpectateJoin = (meta: ClientMeta, key: string) => {
@@ -381,6 +612,9 @@ const handleKeyJoin = (meta: ClientMeta, key: string) => {
     const state = toStatePayload(room)
     for (const diskKey of ['B', 'W'] as Disk[]) {
       const pid = room.players[diskKey]
+      // The host is still marked as waiting; a reconnect would otherwise rehydrate the lobby.
+      const occupant = clientsById.get(pid ?? '')
+      if (occupant) occupant.status = 'playing'
       sendById(pid, 'match:start', {
         youAre: 'player',
         yourDisk: diskKey,
@@ -391,11 +625,11 @@ const handleKeyJoin = (meta: ClientMeta, key: string) => {
   } else {
     room.statusMessage = 'Waiting for opponent to join via key.'
     room.turnDeadline = null
-    send(meta.socket, 'match:waiting', { matchKey: key, yourDisk: disk })
+    send(meta.socket, 'match:waiting', { matchKey: key, yourDisk: disk, ranked: room.ranked })
   }
 }
 
-const handleRandomJoin = (meta: ClientMeta) => {
+const handleRandomJoin = (meta: ClientMeta, ranked: boolean) => {
   if (meta.status !== 'idle') {
     if (meta.status === 'queue') {
       send(meta.socket, 'queue:status', { searching: true })
@@ -405,28 +639,117 @@ const handleRandomJoin = (meta: ClientMeta) => {
     return
   }
 
-  randomQueue.push(meta.id)
+  randomQueue.push({ id: meta.id, ranked, joinedAt: Date.now() })
   meta.status = 'queue'
   send(meta.socket, 'queue:status', { searching: true })
-  if (randomQueue.length >= 2) {
-    const [firstId, secondId] = randomQueue.splice(0, 2)
-    createRandomRoom(firstId, secondId)
+  pairRandomQueue()
+  if (meta.status === 'queue') armQueueBotFallback(meta)
+}
+
+// The queued opponent `entry` should play: the next unranked entrant, or the
+// closest-rated ranked one within the wider of the two players' windows.
+const findQueuePartner = (entry: QueueEntry, index: number, now: number) => {
+  let best = -1
+  let bestGap = Infinity
+  const rating = seatRating(entry.id) ?? INITIAL_RATING
+  for (let other = index + 1; other < randomQueue.length; other += 1) {
+    const candidate = randomQueue[other]
+    if (candidate.ranked !== entry.ranked) continue
+    if (!entry.ranked) return other
+    const gap = Math.abs(rating - (seatRating(candidate.id) ?? INITIAL_RATING))
+    const window = Math.max(
+      ratingWindow(now - entry.joinedAt, RATING_WINDOW_BASE, RATING_WINDOW_GROWTH),
+      ratingWindow(now - candidate.joinedAt, RATING_WINDOW_BASE, RATING_WINDOW_GROWTH),
+    )
+    if (gap <= window && gap < bestGap) {
+      best = other
+      bestGap = gap
+    }
   }
+  return best
 }
 
-const createRandomRoom = (firstId: string, secondId: string) => {
-  const firstMeta = clientsById.get(firstId)
-  const secondMeta = clientsById.get(secondId)
+/** Starts a game for every pair the queue allows, longest-waiting entrants first. */
+const pairRandomQueue = (now = Date.now()) => {
+  let paired = false
+  for (let index = 0; index < randomQueue.length; index += 1) {
+    const partnerIndex = findQueuePartner(randomQueue[index], index, now)
+    if (partnerIndex === -1) continue
+    const [partner] = randomQueue.splice(partnerIndex, 1)
+    const [entry] = randomQueue.splice(index, 1)
+    clearQueueBotTimer(entry.id)
+    clearQueueBotTimer(partner.id)
+    createRandomRoom(entry, partner)
+    index -= 1
+    paired = true
+  }
+  return paired
+}
+
+const armQueueBotFallback = (meta: ClientMeta) => {
+  if (RANDOM_BOT_FALLBACK_MS <= 0) return
+  const timer = setTimeout(() => {
+    randomQueueBotTimers.delete(meta.id)
+    if (meta.status !== 'queue') return
+    removeFromQueue(meta.id)
+    meta.status = 'idle'
+    send(meta.socket, 'queue:status', { searching: false })
+    startBotRoom(meta, RANDOM_BOT_DIFFICULTY)
+    schedulePersist()
+  }, RANDOM_BOT_FALLBACK_MS)
+  randomQueueBotTimers.set(meta.id, timer)
+}
+
+const startBotRoom = (meta: ClientMeta, difficulty: CpuDifficulty, diskPreference?: Disk) => {
+  const room = createRoom()
+  rooms.set(room.key, room)
+  const humanDisk: Disk = diskPreference ?? (serverRandom() > 0.5 ? 'B' : 'W')
+  const bot = createBot(difficulty)
+  const slots: Array<[ClientMeta, Disk]> = [
+    [meta, humanDisk],
+    [bot, nextDisk(humanDisk)],
+  ]
+
+  for (const [occupant, disk] of slots) {
+    room.players[disk] = occupant.id
+    occupant.status = 'playing'
+    occupant.role = 'player'
+    occupant.roomKey = room.key
+    occupant.disk = disk
+  }
+
+  startRoom(room)
+  room.statusMessage = `CPU (${difficulty}) joined. Black to move first.`
+  send(meta.socket, 'match:start', {
+    youAre: 'player',
+    yourDisk: humanDisk,
+    matchKey: room.key,
+    state: toStatePayload(room),
+  })
+  scheduleBotTurn(room)
+}
+
+const handleBotJoin = (meta: ClientMeta, difficulty: CpuDifficulty, diskPreference?: Disk) => {
+  if (meta.status !== 'idle') {
+    send(meta.socket, 'error', { message: 'Leave your current session before starting a CPU match.' })
+    return
+  }
+  startBotRoom(meta, difficulty, diskPreference)
+}
+
+const createRandomRoom = (first: QueueEntry, second: QueueEntry) => {
+  const firstMeta = clientsById.get(first.id)
+  const secondMeta = clientsById.get(second.id)
   if (!firstMeta || !secondMeta) {
-    if (firstMeta) randomQueue.unshift(firstMeta.id)
-    if (secondMeta) randomQueue.unshift(secondMeta.id)
+    if (firstMeta) randomQueue.unshift(first)
+    if (secondMeta) randomQueue.unshift(second)
     return
   }
 
-  const room = createRoom()
+  const room = createRoom({ ranked: first.ranked })
   rooms.set(room.key, room)
   const entrants: ClientMeta[] = [firstMeta, secondMeta]
-  if (Math.random() > 0.5) entrants.reverse()
+  if (serverRandom() > 0.5) entrants.reverse()
   const slots: Array<[ClientMeta, Disk]> = entrants.map((meta, index) => [
     meta,
     index === 0 ? 'B' : 'W',
@@ -508,19 +831,46 @@ const handleLeave = (meta: ClientMeta) => {
   meta.disk = null
 }
 
-wss.on('connection', (socket, request) => {
-  const url = new URL(request.url ?? '/', 'http://localhost')
-  const requestedId = url.searchParams.get('clientId')
-  let meta: ClientMeta | undefined =
-    requestedId && clientsById.has(requestedId) ? clientsById.get(requestedId) ?? undefined : undefined
+/**
+ * Finds the account a verified token signs in as, re-created under a guest
+ * name if the record itself was lost; without a token, opens a new guest account.
+ */
+const signIn = (accountId: string | null) => {
+  const id = accountId ?? randomUUID()
+  let account = findAccount(id)
+  if (!account) {
+    account = {
+      id,
+      nickname: createGuestNickname(serverRandom),
+      createdAt: Date.now(),
+      rating: INITIAL_RATING,
+      ratedGames: 0,
+    }
+    guestAccounts.set(id, account)
+  }
+  return account
+}
+
+const toAccountPayload = (account: Account) => ({
+  nickname: account.nickname,
+  token: createAccountToken(signingSecret(), account.id),
+  rating: account.rating,
+  ratedGames: account.ratedGames,
+})
+
+// Binds a greeted socket to its account's session, taking it over from any other connection.
+const attachClient = (socket: WebSocket, accountId: string | null) => {
+  const account = signIn(accountId)
+  let meta = clientsById.get(account.id)
 
   if (meta) {
     if (meta.socket && meta.socket !== socket) {
-      try {
-        meta.socket.terminate()
-      } catch (error) {
-        console.warn('Failed to terminate previous socket', error)
-      }
+      // Tell the old connection why, so it stops reconnecting instead of taking the session back.
+      send(meta.socket, 'error', {
+        message: 'This account connected from somewhere else.',
+        code: 'session-replaced',
+      })
+      meta.socket.close(4000, 'Session replaced')
     }
     meta.socket = socket
     if (meta.disconnectTimer) {
@@ -528,101 +878,168 @@ wss.on('connection', (socket, request) => {
       meta.disconnectTimer = null
     }
   } else {
-    const clientId = randomUUID()
     meta = {
-      id: clientId,
+      id: account.id,
       socket,
       status: 'idle',
       roomKey: null,
       role: null,
       disk: null,
       disconnectTimer: null,
+      bot: null,
     }
-    clientsById.set(clientId, meta)
+    clientsById.set(account.id, meta)
   }
 
   clientsBySocket.set(socket, meta)
 
-  send(socket, 'hello', { clientId: meta.id, message: 'Connected to Othello match server.' })
+  send(socket, 'hello', {
+    clientId: account.id,
+    protocolVersion: PROTOCOL_VERSION,
+    message: 'Connected to Othello match server.',
+    ...toAccountPayload(account),
+  })
   rehydrateSession(meta)
+  return meta
+}
+
+// Holds an offline client's seat for `delay`, then leaves on its behalf and forgets it.
+const startDisconnectTimer = (meta: ClientMeta, delay: number) => {
+  meta.disconnectTimer = setTimeout(() => {
+    meta.disconnectTimer = null
+    handleLeave(meta)
+    clientsById.delete(meta.id)
+    guestAccounts.delete(meta.id)
+    schedulePersist()
+  }, delay)
+}
+
+const handleProfileUpdate = (meta: ClientMeta, nickname: string) => {
+  const account = findAccount(meta.id)
+  if (!account) return
+  account.nickname = nickname
+  keepAccount(account)
+  send(meta.socket, 'profile', toAccountPayload(account))
+  const room = meta.roomKey ? rooms.get(meta.roomKey) : undefined
+  if (room) broadcastRoom(room, 'match:update', { state: toStatePayload(room) })
+}
+
+const handleClientMessage = (meta: ClientMeta, message: ClientMessage) => {
+  const { socket } = meta
+  switch (message.type) {
+    case 'hello':
+      send(socket, 'error', { message: 'Already connected.' })
+      break
+    case 'profile:update':
+      handleProfileUpdate(meta, message.payload.nickname)
+      break
+    case 'random:join':
+      handleRandomJoin(meta, message.payload.ranked ?? false)
+      break
+    case 'random:cancel':
+      handleLeave(meta)
+      break
+    case 'key:create': {
+      if (meta.status !== 'idle') {
+        send(socket, 'error', { message: 'Already in a session.' })
+        break
+      }
+      const room = createRoom({
+        ranked: message.payload.ranked,
+        timeControl: message.payload.timeControl,
+      })
+      rooms.set(room.key, room)
+      const disk = assignPlayer(room, meta.id, 'B')
+      meta.status = 'waiting'
+      meta.role = 'player'
+      meta.roomKey = room.key
+      meta.disk = disk
+      send(socket, 'match:waiting', { matchKey: room.key, yourDisk: disk, ranked: room.ranked })
+      break
+    }
+    case 'key:join':
+      handleKeyJoin(meta, message.payload.matchKey)
+      break
+    case 'spectate:join':
+      handleSpectateJoin(meta, message.payload.matchKey)
+      break
+    case 'move':
+      handleMove(meta, message.payload.index)
+      break
+    case 'bot:create':
+      handleBotJoin(meta, message.payload.difficulty ?? 'normal', message.payload.disk)
+      break
+    case 'leave':
+      handleLeave(meta)
+      break
+    default:
+      unhandledMessage(message)
+  }
+}
+
+wss.on('connection', (socket) => {
+  // Set once the client's hello names a protocol version this server speaks.
+  let meta: ClientMeta | null = null
 
   socket.on('message', (raw) => {
-    try {
-      const parsed = JSON.parse(raw.toString()) as MessagePayload
-      const { type, payload } = parsed
-      if (!type) return
-      switch (type) {
-        case 'random:join':
-          handleRandomJoin(meta)
-          break
-        case 'random:cancel':
-          handleLeave(meta)
-          break
-        case 'key:create': {
-          if (meta.status !== 'idle') {
-            send(socket, 'error', { message: 'Already in a session.' })
-            break
-          }
-          const room = createRoom()
-          rooms.set(room.key, room)
-          const disk = assignPlayer(room, meta.id, 'B')
-          meta.status = 'waiting'
-          meta.role = 'player'
-          meta.roomKey = room.key
-          meta.disk = disk
-          send(socket, 'match:waiting', { matchKey: room.key, yourDisk: disk })
-          break
-        }
-        case 'key:join': {
-          if (!payload || typeof payload.matchKey !== 'string') {
-            send(socket, 'error', { message: 'matchKey is required.' })
-            break
-          }
-          handleKeyJoin(meta, payload.matchKey)
-          break
-        }
-        case 'spectate:join': {
-          if (!payload || typeof payload.matchKey !== 'string') {
-            send(socket, 'error', { message: 'matchKey is required.' })
-            break
-          }
-          handleSpectateJoin(meta, payload.matchKey)
-          break
-        }
-        case 'move': {
-          if (!payload || typeof payload.index !== 'number') {
-            send(socket, 'error', { message: 'index is required.' })
-            break
-          }
-          handleMove(meta, payload.index)
-          break
-        }
-        case 'leave':
-          handleLeave(meta)
-          break
-        default:
-          send(socket, 'error', { message: `Unknown message type: ${type}` })
+    const parsed = parseClientMessage(raw.toString())
+    if (!parsed.ok) {
+      send(socket, 'error', { message: parsed.error })
+      return
+    }
+    const { message } = parsed
+
+    if (!meta) {
+      const version = message.type === 'hello' ? message.payload.protocolVersion : null
+      if (version !== PROTOCOL_VERSION) {
+        send(socket, 'error', {
+          message:
+            version === null
+              ? `Send hello with protocolVersion first; this server speaks protocol version ${PROTOCOL_VERSION}.`
+              : `Protocol version ${version} is not supported; this server speaks version ${PROTOCOL_VERSION}.`,
+          code: 'protocol-mismatch',
+          protocolVersion: PROTOCOL_VERSION,
+        })
+        socket.close(1002, 'Protocol version mismatch')
+        return
+      }
+      const token = message.type === 'hello' ? message.payload.token : undefined
+      const accountId = token ? verifyAccountToken(signingSecret(), token) : null
+      if (token && !accountId) {
+        // A fresh account here would hand the client a token to save over the one it still needs.
+        send(socket, 'error', { message: 'This account token was not recognised.', code: 'token-rejected' })
+        socket.close(4001, 'Token rejected')
+        return
       }
+      meta = attachClient(socket, accountId)
+      schedulePersist()
+      return
+    }
+    // A connection whose session was taken over may still have frames in flight.
+    if (meta.socket !== socket) return
+
+    try {
+      handleClientMessage(meta, message)
     } catch (error) {
       console.error('Failed to process message', error)
-      send(socket, 'error', { message: 'Malformed message.' })
+      send(socket, 'error', { message: 'Failed to process message.' })
     }
+    schedulePersist()
   })
 
   socket.on('close', () => {
     clientsBySocket.delete(socket)
-    if (meta?.disconnectTimer) {
+    const closing = meta
+    // A socket replaced by a reconnect closes too; the session lives on in the new one.
+    if (!closing || closing.socket !== socket || closing.disconnectTimer) {
       return
     }
-    meta.disconnectTimer = setTimeout(() => {
-      meta.disconnectTimer = null
-      handleLeave(meta)
-      clientsById.delete(meta.id)
-    }, DISCONNECT_GRACE_MS)
+    startDisconnectTimer(closing, DISCONNECT_GRACE_MS)
   })
 })
 
-const timeoutSweepInterval = Math.min(5000, Math.max(1000, Math.floor(TURN_TIMEOUT_MS / 6)))
+// Chess clocks run out to the second, so rooms are checked well within one.
+const timeoutSweepInterval = 250
 setInterval(() => {
   const now = Date.now()
   const expiredRooms: RoomState[] = []
@@ -632,8 +1049,160 @@ setInterval(() => {
     }
   }
   expiredRooms.forEach((room) => handleTimeout(room))
+  if (expiredRooms.length) schedulePersist()
 }, timeoutSweepInterval)
 
+// Ranked windows widen while players wait, so the queue is re-checked even when nobody joins.
+setInterval(() => {
+  if (pairRandomQueue()) schedulePersist()
+}, 1000)
+
+const toStoredRoom = (room: RoomState): StoredRoom => ({
+  key: room.key,
+  moves: room.moves,
+  players: { ...room.players },
+  spectators: [...room.spectators],
+  status: room.status,
+  statusMessage: room.statusMessage,
+  createdAt: room.createdAt,
+  winner: room.winner,
+  turnDeadline: room.turnDeadline,
+  seed: room.seed,
+  ranked: room.ranked,
+  ratedPlayers: room.ratedPlayers,
+  timeControl: room.timeControl,
+  clocks: room.clocks ? { ...room.clocks } : null,
+  turnStartedAt: room.turnStartedAt,
+})
+
+const toStoredClient = (meta: ClientMeta): StoredClient => ({
+  id: meta.id,
+  status: meta.status,
+  roomKey: meta.roomKey,
+  role: meta.role,
+  disk: meta.disk,
+  bot: meta.bot ? { difficulty: meta.bot.difficulty } : null,
+})
+
+// Idle clients hold nothing worth restoring; they simply get a fresh session next time.
+// Guest accounts are saved only alongside a session that is, so restored seats keep their names.
+const takeSnapshot = (): ServerSnapshot => {
+  const clients = [...clientsById.values()].filter((meta) => meta.status !== 'idle')
+  return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    savedAt: Date.now(),
+    rooms: [...rooms.values()].map(toStoredRoom),
+    clients: clients.map(toStoredClient),
+    randomQueue: randomQueue.map((entry) => ({ ...entry })),
+    accounts: [...accounts.values(), ...clients.flatMap((meta) => guestAccounts.get(meta.id) ?? [])],
+    tokenSecret,
+  }
+}
+
+let persistTimer: NodeJS.Timeout | null = null
+let pendingSave: Promise<void> = Promise.resolve()
+
+// Saves run one after another, each writing the state as it is when its turn comes.
+const persistNow = () => {
+  if (persistTimer) {
+    clearTimeout(persistTimer)
+    persistTimer = null
+  }
+  pendingSave = pendingSave
+    .then(() => storage.save(takeSnapshot()))
+    .catch((error) => {
+      console.error('Failed to save match state', error)
+    })
+  return pendingSave
+}
+
+const schedulePersist = () => {
+  if (persistTimer) return
+  persistTimer = setTimeout(() => {
+    persistTimer = null
+    void persistNow()
+  }, STORAGE_FLUSH_MS)
+}
+
+/**
+ * Rebuilds rooms and sessions from a snapshot. Every restored player starts
+ * offline with `RESTORE_GRACE_MS` to reconnect, and running turn clocks are
+ * pushed back by the downtime so nobody loses on time while the server was away.
+ */
+const restoreSnapshot = (snapshot: ServerSnapshot) => {
+  const downtime = Math.max(0, Date.now() - snapshot.savedAt)
+  tokenSecret = snapshot.tokenSecret
+  for (const account of snapshot.accounts) {
+    accounts.set(account.id, account)
+  }
+
+  for (const stored of snapshot.clients) {
+    clientsById.set(stored.id, {
+      ...stored,
+      socket: null,
+      disconnectTimer: null,
+      bot: stored.bot ? { difficulty: stored.bot.difficulty, moveTimer: null } : null,
+    })
+  }
+
+  for (const stored of snapshot.rooms) {
+    const position = replayMoves(stored.moves)
+    if (!position) {
+      console.warn(`Dropping stored room ${stored.key}: its moves do not replay.`)
+      continue
+    }
+    rooms.set(stored.key, {
+      ...stored,
+      position,
+      players: { ...stored.players },
+      spectators: new Set(stored.spectators),
+      turnDeadline: stored.turnDeadline === null ? null : stored.turnDeadline + downtime,
+      turnStartedAt: stored.turnStartedAt === null ? null : stored.turnStartedAt + downtime,
+      clocks: stored.clocks ? { ...stored.clocks } : null,
+    })
+  }
+
+  for (const entry of snapshot.randomQueue) {
+    const meta = clientsById.get(entry.id)
+    if (meta?.status !== 'queue') continue
+    randomQueue.push(entry)
+    armQueueBotFallback(meta)
+  }
+  for (const meta of clientsById.values()) {
+    if (!meta.bot) startDisconnectTimer(meta, RESTORE_GRACE_MS)
+  }
+  for (const room of rooms.values()) {
+    scheduleBotTurn(room)
+  }
+  return downtime
+}
+
+try {
+  const snapshot = await storage.load()
+  if (snapshot) {
+    const downtime = restoreSnapshot(snapshot)
+    console.log(
+      `Restored ${rooms.size} room(s), ${snapshot.clients.length} session(s) and ${accounts.size} account(s)` +
+        ` from ${storage.description}` +
+        ` (down ${Math.round(downtime / 1000)}s)`,
+    )
+  }
+} catch (error) {
+  console.error(`Ignoring stored match state in ${storage.description}`, error)
+}
+
+// Write the latest state before exiting so a deploy loses nothing.
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    void persistNow().then(() => process.exit(0))
+  })
+}
+
 httpServer.listen(PORT, () => {
-  console.log(`Matchmaking server listening on port ${PORT}`)
+  // Report the bound port rather than PORT, so MATCH_SERVER_PORT=0 (used by the tests) is usable.
+  const address = httpServer.address()
+  const port = address && typeof address === 'object' ? address.port : PORT
+  console.log(
+    `Matchmaking server listening on port ${port} (random seed ${RANDOM_SEED}, storage: ${storage.description})`,
+  )
 })
@@ -0,0 +1,27 @@
+import { expectedScore } from '../shared/elo.js'
+import type { Disk } from '../shared/othello.js'
+import type { MatchWinner } from '../shared/protocol.js'
+
+/** Where every account starts. */
+export const INITIAL_RATING = 1500
+
+// The most a single game can move a rating.
+const K_FACTOR = 32
+
+/**
+ * Elo change for each seat after a decided game. Changes are rounded and
+ * zero-sum, so ratings stay whole numbers and the pool's total never drifts.
+ */
+export const rateGame = (ratings: Record<Disk, number>, winner: Exclude<MatchWinner, null>) => {
+  const blackScore = winner === 'draw' ? 0.5 : winner === 'B' ? 1 : 0
+  const change = Math.round(K_FACTOR * (blackScore - expectedScore(ratings.B, ratings.W)))
+  // `|| 0` turns the -0 of an even draw into a plain 0.
+  return { B: change || 0, W: -change || 0 }
+}
+
+/**
+ * How far from their own rating a queued player accepts an opponent after
+ * waiting `waitedMs`: `base` at first, growing by `growthPerSecond`.
+ */
+export const ratingWindow = (waitedMs: number, base: number, growthPerSecond: number) =>
+  base + (Math.max(0, waitedMs) / 1000) * growthPerSecond
@@ -0,0 +1,229 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { isMoveRecord, type Disk, type MoveRecord } from '../shared/othello.js'
+import { isCpuDifficulty, isTimeControl, type MatchWinner, type TimeControl } from '../shared/protocol.js'
+import type { CpuDifficulty } from '../src/lib/cpuPlayer.js'
+import type { Account } from './accounts.js'
+import { INITIAL_RATING } from './ratings.js'
+
+/**
+ * Bumped when the snapshot layout changes. Format 2 and 3 files are upgraded
+ * on load so accounts survive; anything older is ignored rather than misread.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 4
+
+export type ClientStatus = 'idle' | 'queue' | 'waiting' | 'playing' | 'spectating'
+export type ClientRole = 'player' | 'spectator' | null
+export type RoomStatus = 'waiting' | 'playing' | 'finished'
+
+const CLIENT_STATUSES: Record<ClientStatus, true> = {
+  idle: true,
+  queue: true,
+  waiting: true,
+  playing: true,
+  spectating: true,
+}
+
+export interface StoredRoom {
+  key: string
+  /** The board is not stored: it is replayed from these on load. */
+  moves: MoveRecord[]
+  players: Record<Disk, string | null>
+  spectators: string[]
+  status: RoomStatus
+  statusMessage: string
+  createdAt: number
+  winner: MatchWinner
+  turnDeadline: number | null
+  seed: number
+  ranked: boolean
+  /** The accounts a ranked game's result is rated for, fixed when it starts. */
+  ratedPlayers: Record<Disk, string> | null
+  timeControl: TimeControl | null
+  clocks: Record<Disk, number> | null
+  /** When the side to move's clock started; pushed back by the downtime on load, like `turnDeadline`. */
+  turnStartedAt: number | null
+}
+
+export interface StoredQueueEntry {
+  id: string
+  ranked: boolean
+  /** When the entrant joined; a ranked entrant's rating window widens from here. */
+  joinedAt: number
+}
+
+export interface StoredClient {
+  id: string
+  status: ClientStatus
+  roomKey: string | null
+  role: ClientRole
+  disk: Disk | null
+  /** Set for server-side CPU seats. */
+  bot: { difficulty: CpuDifficulty } | null
+}
+
+/** Everything the match server needs to pick up live games after a restart. */
+export interface ServerSnapshot {
+  formatVersion: number
+  /** When the snapshot was taken; turn deadlines are pushed back by the time since. */
+  savedAt: number
+  rooms: StoredRoom[]
+  clients: StoredClient[]
+  randomQueue: StoredQueueEntry[]
+  /** Every account with a chosen nickname or a rated game, plus the guests of stored sessions. */
+  accounts: Account[]
+  /** Signs account tokens; kept so tokens stay valid across restarts unless MATCH_TOKEN_SECRET overrides it. */
+  tokenSecret: string
+}
+
+export interface MatchStorage {
+  /** Where the state lives, for the startup log. */
+  description: string
+  load: () => Promise<ServerSnapshot | null>
+  save: (snapshot: ServerSnapshot) => Promise<void>
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+const isSlot = (value: unknown) => value === null || typeof value === 'string'
+
+const isStoredRoom = (value: unknown): value is StoredRoom =>
+  isRecord(value) &&
+  typeof value.key === 'string' &&
+  Array.isArray(value.moves) &&
+  value.moves.every(isMoveRecord) &&
+  isRecord(value.players) &&
+  isSlot(value.players.B) &&
+  isSlot(value.players.W) &&
+  Array.isArray(value.spectators) &&
+  value.spectators.every((id) => typeof id === 'string') &&
+  (value.status === 'waiting' || value.status === 'playing' || value.status === 'finished') &&
+  typeof value.statusMessage === 'string' &&
+  typeof value.createdAt === 'number' &&
+  (value.winner === null || value.winner === 'draw' || value.winner === 'B' || value.winner === 'W') &&
+  (value.turnDeadline === null || typeof value.turnDeadline === 'number') &&
+  typeof value.seed === 'number' &&
+  typeof value.ranked === 'boolean' &&
+  (value.ratedPlayers === null ||
+    (isRecord(value.ratedPlayers) &&
+      typeof value.ratedPlayers.B === 'string' &&
+      typeof value.ratedPlayers.W === 'string')) &&
+  (value.timeControl === null || isTimeControl(value.timeControl)) &&
+  (value.clocks === null ||
+    (isRecord(value.clocks) && typeof value.clocks.B === 'number' && typeof value.clocks.W === 'number')) &&
+  (value.turnStartedAt === null || typeof value.turnStartedAt === 'number')
+
+const isQueueEntry = (value: unknown): value is StoredQueueEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.ranked === 'boolean' &&
+  typeof value.joinedAt === 'number'
+
+const isStoredClient = (value: unknown): value is StoredClient =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.status === 'string' &&
+  Object.hasOwn(CLIENT_STATUSES, value.status) &&
+  isSlot(value.roomKey) &&
+  (value.role === null || value.role === 'player' || value.role === 'spectator') &&
+  (value.disk === null || value.disk === 'B' || value.disk === 'W') &&
+  (value.bot === null || (isRecord(value.bot) && isCpuDifficulty(value.bot.difficulty)))
+
+const isAccount = (value: unknown): value is Account =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.nickname === 'string' &&
+  typeof value.createdAt === 'number' &&
+  typeof value.rating === 'number' &&
+  typeof value.ratedGames === 'number'
+
+// Format 2 predates ratings: every account starts unrated and every room and queue entry unranked.
+const upgradeFormat2 = (value: Record<string, unknown>): Record<string, unknown> => {
+  const { rooms, randomQueue, accounts, savedAt } = value
+  return {
+    ...value,
+    formatVersion: 3,
+    rooms: Array.isArray(rooms)
+      ? rooms.map((room: unknown) => (isRecord(room) ? { ...room, ranked: false, ratedPlayers: null } : room))
+      : rooms,
+    randomQueue: Array.isArray(randomQueue)
+      ? randomQueue.map((id: unknown) => ({ id, ranked: false, joinedAt: savedAt }))
+      : randomQueue,
+    accounts: Array.isArray(accounts)
+      ? accounts.map((account: unknown) =>
+          isRecord(account) ? { ...account, rating: INITIAL_RATING, ratedGames: 0 } : account,
+        )
+      : accounts,
+  }
+}
+
+// Format 3 predates chess clocks: every stored room keeps the flat per-move limit.
+const upgradeFormat3 = (value: Record<string, unknown>): Record<string, unknown> => ({
+  ...value,
+  formatVersion: 4,
+  rooms: Array.isArray(value.rooms)
+    ? value.rooms.map((room: unknown) =>
+        isRecord(room) ? { ...room, timeControl: null, clocks: null, turnStartedAt: null } : room,
+      )
+    : value.rooms,
+})
+
+/** Validates a parsed snapshot; throws with the reason so a bad file is reported, not half-loaded. */
+export const parseSnapshot = (raw: unknown): ServerSnapshot => {
+  if (!isRecord(raw)) throw new Error('Snapshot is not an object.')
+  let value = raw
+  if (value.formatVersion === 2) value = upgradeFormat2(value)
+  if (value.formatVersion === 3) value = upgradeFormat3(value)
+  if (value.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Snapshot format ${String(value.formatVersion)} is not supported (expected ${SNAPSHOT_FORMAT_VERSION}).`)
+  }
+  if (typeof value.savedAt !== 'number') throw new Error('Snapshot has no savedAt time.')
+  if (!Array.isArray(value.rooms) || !value.rooms.every(isStoredRoom)) {
+    throw new Error('Snapshot has a malformed room.')
+  }
+  if (!Array.isArray(value.clients) || !value.clients.every(isStoredClient)) {
+    throw new Error('Snapshot has a malformed client.')
+  }
+  if (!Array.isArray(value.randomQueue) || !value.randomQueue.every(isQueueEntry)) {
+    throw new Error('Snapshot has a malformed random queue.')
+  }
+  if (!Array.isArray(value.accounts) || !value.accounts.every(isAccount)) {
+    throw new Error('Snapshot has a malformed account.')
+  }
+  if (typeof value.tokenSecret !== 'string' || !value.tokenSecret) {
+    throw new Error('Snapshot has no token secret.')
+  }
+  return value as unknown as ServerSnapshot
+}
+
+/** Keeps nothing: a restart starts from an empty server, as before storage existed. */
+export const createMemoryStorage = (): MatchStorage => ({
+  description: 'memory (not persisted)',
+  load: async () => null,
+  save: async () => {},
+})
+
+/**
+ * One JSON file holding the latest snapshot. Writes go to a temporary file
+ * that is renamed over the old one, so a crash mid-write keeps the previous state.
+ */
+export const createFileStorage = (path: string): MatchStorage => ({
+  description: `file ${path}`,
+  load: async () => {
+    let text: string
+    try {
+      text = await readFile(path, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+    return parseSnapshot(JSON.parse(text))
+  },
+  save: async (snapshot) => {
+    await mkdir(dirname(path), { recursive: true })
+    const temporary = `${path}.tmp`
+    await writeFile(temporary, `${JSON.stringify(snapshot)}\n`)
+    await rename(temporary, path)
+  },
+})
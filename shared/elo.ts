@@ -0,0 +1,6 @@
+/**
+ * Expected score of a player rated `rating` against one rated `opponent`.
+ * Shared by the match server's live ratings and the CPU benchmark's Elo table.
+ */
+export const expectedScore = (rating: number, opponent: number) =>
+  1 / (1 + 10 ** ((opponent - rating) / 400))
@@ -92,6 +92,72 @@ export const applyMove = (
   return next
 }
 
+/** One ply of a game record. `index` is null when `disk` had to pass. */
+export interface MoveRecord {
+  disk: Disk
+  index: number | null
+}
+
+export interface GamePosition {
+  board: Cell[]
+  currentDisk: Disk
+  lastMove: number | null
+}
+
+export const createInitialPosition = (): GamePosition => ({
+  board: createInitialBoard(),
+  currentDisk: 'B',
+  lastMove: null,
+})
+
+/**
+ * Applies one record to a position, or returns null if it is not legal there:
+ * the wrong side moving, an illegal square, or a pass while moves exist (or
+ * after the game has ended).
+ */
+export const advancePosition = (
+  position: GamePosition,
+  record: MoveRecord,
+): GamePosition | null => {
+  if (record.disk !== position.currentDisk) return null
+  const moves = computeValidMoves(position.board, record.disk)
+
+  if (record.index === null) {
+    if (moves.size > 0) return null
+    if (computeValidMoves(position.board, nextDisk(record.disk)).size === 0) return null
+    return { ...position, currentDisk: nextDisk(record.disk) }
+  }
+
+  const flips = moves.get(record.index)
+  if (!flips) return null
+  return {
+    board: applyMove(position.board, record.index, record.disk, flips),
+    currentDisk: nextDisk(record.disk),
+    lastMove: record.index,
+  }
+}
+
+/** Rebuilds the position reached by a record from the initial board, or null if any ply is illegal. */
+export const replayMoves = (moves: MoveRecord[]): GamePosition | null => {
+  let position = createInitialPosition()
+  for (const record of moves) {
+    const next = advancePosition(position, record)
+    if (!next) return null
+    position = next
+  }
+  return position
+}
+
+export const isMoveRecord = (value: unknown): value is MoveRecord => {
+  if (!value || typeof value !== 'object') return false
+  const { disk, index } = value as Partial<MoveRecord>
+  return (
+    (disk === 'B' || disk === 'W') &&
+    (index === null ||
+      (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < BOARD_SIZE * BOARD_SIZE))
+  )
+}
+
 export const countDisks = (board: Cell[]): Record<Disk, number> =>
   board.reduce(
     (acc, cell) => {
@@ -101,3 +167,456 @@ export const countDisks = (board: Cell[]): Record<Disk, number> =>
     },
     { B: 0, W: 0 },
   )
+
+/**
+ * 64-bit bitboard split into two unsigned 32-bit halves.
+ * Bit `i` of the board corresponds to cell index `i` (row * 8 + col):
+ * `lo` holds indices 0-31 and `hi` holds indices 32-63.
+ */
+export interface Bitboard {
+  lo: number
+  hi: number
+}
+
+export type BitboardPair = Record<Disk, Bitboard>
+
+export const EMPTY_BITBOARD: Bitboard = { lo: 0, hi: 0 }
+
+const FULL_MASK = 0xffffffff
+// Columns a (0) and h (7) cleared on every row, used to stop rays wrapping around.
+const NOT_A_FILE = 0xfefefefe
+const NOT_H_FILE = 0x7f7f7f7f
+
+// Positive shifts move toward higher indices (east/south), negative toward lower.
+const BIT_DIRECTIONS: Array<{ shift: number; mask: number }> = [
+  { shift: 1, mask: NOT_A_FILE },
+  { shift: -1, mask: NOT_H_FILE },
+  { shift: 8, mask: FULL_MASK },
+  { shift: -8, mask: FULL_MASK },
+  { shift: 9, mask: NOT_A_FILE },
+  { shift: -9, mask: NOT_H_FILE },
+  { shift: 7, mask: NOT_H_FILE },
+  { shift: -7, mask: NOT_A_FILE },
+]
+
+const shiftLo = (lo: number, hi: number, amount: number) =>
+  amount > 0 ? (lo << amount) >>> 0 : ((lo >>> -amount) | (hi << (32 + amount))) >>> 0
+
+const shiftHi = (lo: number, hi: number, amount: number) =>
+  amount > 0 ? ((hi << amount) | (lo >>> (32 - amount))) >>> 0 : hi >>> -amount
+
+const popcount32 = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555)
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333)
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+export const popcount = (bitboard: Bitboard) =>
+  popcount32(bitboard.lo) + popcount32(bitboard.hi)
+
+export const bitboardFromIndex = (index: number): Bitboard =>
+  index < 32 ? { lo: (1 << index) >>> 0, hi: 0 } : { lo: 0, hi: (1 << (index - 32)) >>> 0 }
+
+export const hasBit = (bitboard: Bitboard, index: number) =>
+  index < 32
+    ? (bitboard.lo & (1 << index)) !== 0
+    : (bitboard.hi & (1 << (index - 32))) !== 0
+
+export const isEmptyBitboard = (bitboard: Bitboard) => (bitboard.lo | bitboard.hi) === 0
+
+export const bitboardIndices = (bitboard: Bitboard): number[] => {
+  const indices: number[] = []
+  let lo = bitboard.lo
+  let hi = bitboard.hi
+  while (lo) {
+    const bit = lo & -lo
+    indices.push(31 - Math.clz32(bit))
+    lo = (lo ^ bit) >>> 0
+  }
+  while (hi) {
+    const bit = hi & -hi
+    indices.push(63 - Math.clz32(bit))
+    hi = (hi ^ bit) >>> 0
+  }
+  return indices
+}
+
+export const boardToBitboards = (board: Cell[]): BitboardPair => {
+  const pair: BitboardPair = { B: { lo: 0, hi: 0 }, W: { lo: 0, hi: 0 } }
+  board.forEach((cell, index) => {
+    if (!cell) return
+    const target = pair[cell]
+    if (index < 32) target.lo = (target.lo | (1 << index)) >>> 0
+    else target.hi = (target.hi | (1 << (index - 32))) >>> 0
+  })
+  return pair
+}
+
+export const bitboardsToBoard = (pair: BitboardPair): Cell[] =>
+  Array.from({ length: BOARD_SIZE * BOARD_SIZE }, (_, index) => {
+    if (hasBit(pair.B, index)) return 'B'
+    if (hasBit(pair.W, index)) return 'W'
+    return null
+  })
+
+export const computeMoveMask = (player: Bitboard, opponent: Bitboard): Bitboard => {
+  const emptyLo = ~(player.lo | opponent.lo) >>> 0
+  const emptyHi = ~(player.hi | opponent.hi) >>> 0
+  let movesLo = 0
+  let movesHi = 0
+
+  for (const { shift, mask } of BIT_DIRECTIONS) {
+    const targetLo = opponent.lo & mask
+    const targetHi = opponent.hi & mask
+    let runLo = shiftLo(player.lo, player.hi, shift) & targetLo
+    let runHi = shiftHi(player.lo, player.hi, shift) & targetHi
+    for (let step = 0; step < 5; step += 1) {
+      const nextLo = shiftLo(runLo, runHi, shift) & targetLo
+      const nextHi = shiftHi(runLo, runHi, shift) & targetHi
+      runLo |= nextLo
+      runHi |= nextHi
+    }
+    movesLo |= shiftLo(runLo, runHi, shift) & mask & emptyLo
+    movesHi |= shiftHi(runLo, runHi, shift) & mask & emptyHi
+  }
+
+  return { lo: movesLo >>> 0, hi: movesHi >>> 0 }
+}
+
+export const computeFlipMask = (
+  player: Bitboard,
+  opponent: Bitboard,
+  index: number,
+): Bitboard => {
+  const origin = bitboardFromIndex(index)
+  let flipsLo = 0
+  let flipsHi = 0
+
+  for (const { shift, mask } of BIT_DIRECTIONS) {
+    const targetLo = opponent.lo & mask
+    const targetHi = opponent.hi & mask
+    let runLo = 0
+    let runHi = 0
+    let cursorLo = shiftLo(origin.lo, origin.hi, shift) & targetLo
+    let cursorHi = shiftHi(origin.lo, origin.hi, shift) & targetHi
+
+    while (cursorLo | cursorHi) {
+      runLo |= cursorLo
+      runHi |= cursorHi
+      const nextLo = shiftLo(cursorLo, cursorHi, shift) & mask
+      const nextHi = shiftHi(cursorLo, cursorHi, shift) & mask
+      if ((nextLo & player.lo) | (nextHi & player.hi)) {
+        flipsLo |= runLo
+        flipsHi |= runHi
+        break
+      }
+      cursorLo = nextLo & targetLo
+      cursorHi = nextHi & targetHi
+    }
+  }
+
+  return { lo: flipsLo >>> 0, hi: flipsHi >>> 0 }
+}
+
+/**
+ * Places a disc for `player` at `index`, flipping `flips`. Returns the updated
+ * pair from the mover's perspective without mutating the inputs.
+ */
+export const applyBitboardMove = (
+  player: Bitboard,
+  opponent: Bitboard,
+  index: number,
+  flips: Bitboard,
+): { player: Bitboard; opponent: Bitboard } => {
+  const placed = bitboardFromIndex(index)
+  return {
+    player: {
+      lo: (player.lo | placed.lo | flips.lo) >>> 0,
+      hi: (player.hi | placed.hi | flips.hi) >>> 0,
+    },
+    opponent: {
+      lo: (opponent.lo & ~flips.lo) >>> 0,
+      hi: (opponent.hi & ~flips.hi) >>> 0,
+    },
+  }
+}
+
+interface StabilityAxis {
+  /** Every line of the board along this axis. */
+  lines: Bitboard[]
+  /** Squares with a board edge on at least one side along this axis. */
+  edge: Bitboard
+  /** The two opposite entries of `BIT_DIRECTIONS` for this axis. */
+  directions: Array<{ shift: number; mask: number }>
+}
+
+const unionBitboards = (a: Bitboard, b: Bitboard): Bitboard => ({
+  lo: (a.lo | b.lo) >>> 0,
+  hi: (a.hi | b.hi) >>> 0,
+})
+
+const isOnBoard = (row: number, col: number) =>
+  row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE
+
+const buildStabilityAxis = (dRow: number, dCol: number, directionIndex: number): StabilityAxis => {
+  const lines: Bitboard[] = []
+  let edge: Bitboard = EMPTY_BITBOARD
+  for (let index = 0; index < BOARD_SIZE * BOARD_SIZE; index += 1) {
+    const row = Math.floor(index / BOARD_SIZE)
+    const col = index % BOARD_SIZE
+    const atEdge = !isOnBoard(row - dRow, col - dCol) || !isOnBoard(row + dRow, col + dCol)
+    if (atEdge) edge = unionBitboards(edge, bitboardFromIndex(index))
+    if (isOnBoard(row - dRow, col - dCol)) continue
+    let line: Bitboard = EMPTY_BITBOARD
+    for (let r = row, c = col; isOnBoard(r, c); r += dRow, c += dCol) {
+      line = unionBitboards(line, bitboardFromIndex(r * BOARD_SIZE + c))
+    }
+    lines.push(line)
+  }
+  return {
+    lines,
+    edge,
+    directions: [BIT_DIRECTIONS[directionIndex], BIT_DIRECTIONS[directionIndex + 1]],
+  }
+}
+
+const STABILITY_CORNERS: Bitboard = { lo: 0x00000081, hi: 0x81000000 }
+
+// Horizontal, vertical and the two diagonals, matching the pairs in BIT_DIRECTIONS.
+const STABILITY_AXES: StabilityAxis[] = [
+  buildStabilityAxis(0, 1, 0),
+  buildStabilityAxis(1, 0, 2),
+  buildStabilityAxis(1, 1, 4),
+  buildStabilityAxis(1, -1, 6),
+]
+
+/**
+ * Discs of `player` that can never be flipped. A disc is stable when, along
+ * each of the four axes, its line is full, it touches the board edge, or its
+ * neighbour on either side is a stable disc of the same colour; the set grows
+ * from the corners until nothing changes. Conservative: some truly stable
+ * discs (e.g. behind an opponent's stable wall, or on full lines while all
+ * four corners are still empty) are not reported.
+ */
+export const computeStableMask = (player: Bitboard, opponent: Bitboard): Bitboard => {
+  const occupiedLo = (player.lo | opponent.lo) >>> 0
+  const occupiedHi = (player.hi | opponent.hi) >>> 0
+  // Cheap exit for the search's sake: without a corner there is almost never a stable disc.
+  if (!(occupiedLo & STABILITY_CORNERS.lo) && !(occupiedHi & STABILITY_CORNERS.hi)) {
+    return EMPTY_BITBOARD
+  }
+  const anchored = STABILITY_AXES.map(({ lines, edge }) => {
+    let lo = edge.lo
+    let hi = edge.hi
+    for (const line of lines) {
+      if (((occupiedLo & line.lo) >>> 0) === line.lo && ((occupiedHi & line.hi) >>> 0) === line.hi) {
+        lo |= line.lo
+        hi |= line.hi
+      }
+    }
+    return { lo, hi }
+  })
+
+  let stableLo = 0
+  let stableHi = 0
+  for (;;) {
+    let nextLo = player.lo
+    let nextHi = player.hi
+    STABILITY_AXES.forEach(({ directions }, axis) => {
+      let lo = anchored[axis].lo
+      let hi = anchored[axis].hi
+      for (const { shift, mask } of directions) {
+        lo |= shiftLo(stableLo, stableHi, shift) & mask
+        hi |= shiftHi(stableLo, stableHi, shift) & mask
+      }
+      nextLo &= lo
+      nextHi &= hi
+    })
+    nextLo >>>= 0
+    nextHi >>>= 0
+    if (nextLo === stableLo && nextHi === stableHi) break
+    stableLo = nextLo
+    stableHi = nextHi
+  }
+
+  return { lo: stableLo, hi: stableHi }
+}
+
+/** Indices of every stable disc on the board, of either colour. */
+export const computeStableDiscs = (board: Cell[]): Set<number> => {
+  const { B, W } = boardToBitboards(board)
+  return new Set([
+    ...bitboardIndices(computeStableMask(B, W)),
+    ...bitboardIndices(computeStableMask(W, B)),
+  ])
+}
+
+const COLUMN_LETTERS = 'abcdefgh'
+
+/** Algebraic coordinate for a cell index: columns a-h left to right, rows 1-8 top to bottom. */
+export const indexToCoordinate = (index: number) =>
+  `${COLUMN_LETTERS[index % BOARD_SIZE]}${Math.floor(index / BOARD_SIZE) + 1}`
+
+export const coordinateToIndex = (coordinate: string): number | null => {
+  const match = /^([a-h])([1-8])$/i.exec(coordinate.trim())
+  if (!match) return null
+  return toIndex(Number(match[2]) - 1, COLUMN_LETTERS.indexOf(match[1].toLowerCase()))
+}
+
+export type NotationResult =
+  | { ok: true; moves: MoveRecord[] }
+  | { ok: false; error: string }
+
+interface NotationPly {
+  index: number | null
+  /** Colour the record claims moved, when the format states it. */
+  disk?: Disk
+}
+
+/**
+ * Turns parsed plies (null index = explicit pass) into move records,
+ * inserting the passes a transcript leaves implicit and checking every move
+ * with `computeValidMoves`.
+ */
+const buildMoveRecords = (plies: NotationPly[]): NotationResult => {
+  let position = createInitialPosition()
+  const moves: MoveRecord[] = []
+
+  for (const [ply, { index: square, disk }] of plies.entries()) {
+    const label = square === null ? 'pass' : indexToCoordinate(square)
+    let record: MoveRecord = { disk: position.currentDisk, index: square }
+    if (square !== null && computeValidMoves(position.board, position.currentDisk).size === 0) {
+      const pass: MoveRecord = { disk: position.currentDisk, index: null }
+      const passed = advancePosition(position, pass)
+      if (!passed) return { ok: false, error: `Move ${ply + 1} (${label}) comes after the game ended.` }
+      moves.push(pass)
+      position = passed
+      record = { disk: position.currentDisk, index: square }
+    }
+    if (disk && disk !== record.disk) {
+      return {
+        ok: false,
+        error: `Move ${ply + 1} (${label}) is recorded for ${DISK_LABEL[disk]}, but ${DISK_LABEL[record.disk]} is to move.`,
+      }
+    }
+
+    const next = advancePosition(position, record)
+    if (!next) {
+      return {
+        ok: false,
+        error: `Move ${ply + 1} (${label}) is not legal for ${DISK_LABEL[position.currentDisk]}.`,
+      }
+    }
+    moves.push(record)
+    position = next
+  }
+
+  return { ok: true, moves }
+}
+
+/** Compact transcript such as `f5d6c3`; passes are implicit, as in the standard notation. */
+export const formatMoveList = (moves: MoveRecord[]) =>
+  moves
+    .filter((record) => record.index !== null)
+    .map((record) => indexToCoordinate(record.index as number))
+    .join('')
+
+export const parseMoveList = (text: string): NotationResult => {
+  const compact = text.replace(/[\s,.;-]+/g, '').toLowerCase()
+  if (!/^([a-h][1-8]|pa)*$/.test(compact)) {
+    return { ok: false, error: 'Moves must be coordinates a1-h8 (e.g. f5d6c3).' }
+  }
+  const plies = (compact.match(/[a-h][1-8]|pa/g) ?? []).map((token) => ({
+    index: token === 'pa' ? null : coordinateToIndex(token),
+  }))
+  return buildMoveRecords(plies)
+}
+
+export interface GgfMetadata {
+  black?: string
+  white?: string
+  place?: string
+  date?: Date
+}
+
+const GGF_DISC: Record<Disk, string> = { B: '*', W: 'O' }
+
+const formatGgfBoard = (board: Cell[], disk: Disk) =>
+  `${BOARD_SIZE} ${board.map((cell) => (cell ? GGF_DISC[cell] : '-')).join('')} ${GGF_DISC[disk]}`
+
+const escapeGgfValue = (value: string) => value.replace(/[\]\\]/g, '\\$&')
+
+/** Serialises a game from the standard start position as a GGF record. */
+export const formatGgf = (moves: MoveRecord[], metadata: GgfMetadata = {}) => {
+  const initial = createInitialPosition()
+  const final = replayMoves(moves)
+  const properties = [
+    'GM[Othello]',
+    metadata.place ? `PC[${escapeGgfValue(metadata.place)}]` : null,
+    metadata.date ? `DT[${metadata.date.toISOString()}]` : null,
+    `PB[${escapeGgfValue(metadata.black ?? 'Black')}]`,
+    `PW[${escapeGgfValue(metadata.white ?? 'White')}]`,
+    'TY[8]',
+  ]
+
+  if (final) {
+    const gameOver =
+      computeValidMoves(final.board, final.currentDisk).size === 0 &&
+      computeValidMoves(final.board, nextDisk(final.currentDisk)).size === 0
+    if (gameOver) {
+      const scores = countDisks(final.board)
+      const difference = scores.B - scores.W
+      properties.push(`RE[${difference > 0 ? '+' : ''}${difference}.000]`)
+    }
+  }
+
+  properties.push(`BO[${formatGgfBoard(initial.board, initial.currentDisk)}]`)
+  for (const record of moves) {
+    const square = record.index === null ? 'PA' : indexToCoordinate(record.index).toUpperCase()
+    properties.push(`${record.disk}[${square}]`)
+  }
+
+  return `(;${properties.filter(Boolean).join('')};)`
+}
+
+export const parseGgf = (text: string): NotationResult => {
+  const start = text.indexOf('(;')
+  const end = text.indexOf(';)', start + 2)
+  if (start < 0 || end < 0) return { ok: false, error: 'Not a GGF record: expected "(;" ... ";)".' }
+  const body = text.slice(start + 2, end)
+
+  const properties: Array<[string, string]> = []
+  const propertyPattern = /([A-Z]+)\[((?:[^\]\\]|\\.)*)\]/g
+  for (const match of body.matchAll(propertyPattern)) {
+    properties.push([match[1], match[2].replace(/\\(.)/g, '$1')])
+  }
+
+  const game = properties.find(([name]) => name === 'GM')
+  if (game && game[1].toLowerCase() !== 'othello') {
+    return { ok: false, error: `Unsupported game type: ${game[1]}.` }
+  }
+  const boardProperty = properties.find(([name]) => name === 'BO')
+  if (boardProperty) {
+    const initial = createInitialPosition()
+    const normalized = boardProperty[1].replace(/\s+/g, ' ').trim()
+    if (normalized !== formatGgfBoard(initial.board, initial.currentDisk)) {
+      return { ok: false, error: 'Only games from the standard starting position are supported.' }
+    }
+  }
+
+  const plies: NotationPly[] = []
+  for (const [name, value] of properties) {
+    if (name !== 'B' && name !== 'W') continue
+    // Move values may carry an evaluation and time after slashes, e.g. B[F5//1.2].
+    const square = value.split('/')[0].trim()
+    if (square.toUpperCase() === 'PA') {
+      plies.push({ index: null, disk: name })
+      continue
+    }
+    const index = coordinateToIndex(square)
+    if (index === null) return { ok: false, error: `Invalid GGF move: ${name}[${value}].` }
+    plies.push({ index, disk: name })
+  }
+
+  return buildMoveRecords(plies)
+}
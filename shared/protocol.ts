@@ -0,0 +1,402 @@
+import type { CpuDifficulty } from '../src/lib/cpuPlayer.js'
+import { BOARD_SIZE, isMoveRecord, type Cell, type Disk, type MoveRecord } from './othello.js'
+
+/**
+ * Bumped on any incompatible change to the messages below. The client states
+ * its version in `hello` and the server refuses a mismatch before anything else.
+ */
+export const PROTOCOL_VERSION = 5
+
+/** Longest display name the server accepts, in characters. */
+export const MAX_NICKNAME_LENGTH = 20
+
+export type MatchWinner = Disk | 'draw' | null
+
+/**
+ * A chess clock: `initialMs` of main time per side, then either a Fischer
+ * increment added after every move, or byo-yomi, where a side out of main
+ * time must move within `periodMs` each turn.
+ */
+export type TimeControl =
+  | { kind: 'fischer'; initialMs: number; incrementMs: number }
+  | { kind: 'byoyomi'; initialMs: number; periodMs: number }
+
+/** The longest main time a room accepts. */
+export const MAX_TIME_CONTROL_MS = 3 * 60 * 60 * 1000
+/** The longest increment or byo-yomi period a room accepts. */
+export const MAX_TIME_CONTROL_STEP_MS = 10 * 60 * 1000
+
+export interface MatchStatePayload {
+  matchKey: string
+  board: Cell[]
+  currentDisk: Disk
+  lastMove: number | null
+  /** Every ply so far, passes included; `board` is the position they lead to. */
+  moves: MoveRecord[]
+  scores: Record<Disk, number>
+  spectators: number
+  statusMessage: string
+  winner: MatchWinner
+  /** When the side to move loses on time: its clock runs out here, or the flat per-move limit does. */
+  turnDeadline: number | null
+  /** Set for rooms created with a chess clock. */
+  timeControl: TimeControl | null
+  /**
+   * Main time left per side as of the start of the current turn; the side to
+   * move is counting down from its figure towards `turnDeadline`.
+   */
+  clocks: Record<Disk, number> | null
+  /** Display names by seat; a CPU seat is named after its difficulty. */
+  names: Record<Disk, string | null>
+  /** Ranked games move both players' ratings when they end. */
+  ranked: boolean
+  /** Ratings by seat, as of the last update; null for CPU and empty seats. */
+  ratings: Record<Disk, number | null>
+  /** Set when one seat is played by the server-side CPU; `seed` reproduces its choices. */
+  bot: { disk: Disk; difficulty: CpuDifficulty; seed: number } | null
+}
+
+export type MatchRole = 'player' | 'spectator'
+
+export type MatchEndReason = 'completed' | 'timeout' | 'opponent-left' | 'host-left'
+
+/**
+ * Set on errors the client has to act on rather than just display:
+ * `session-replaced` means the same account connected elsewhere and this socket is being closed;
+ * `token-rejected` means the hello's token was not signed by this server and no account was opened.
+ */
+export type ProtocolErrorCode = 'protocol-mismatch' | 'session-replaced' | 'token-rejected'
+
+type EmptyPayload = Record<string, never>
+
+/** The account a connection is signed in as; the client keeps `token` to sign in again. */
+export interface AccountPayload {
+  nickname: string
+  token: string
+  rating: number
+  ratedGames: number
+}
+
+/** Ranked queue and rooms rate the game; without the flag a match is unranked. */
+type RankedPayload = { ranked?: boolean }
+
+/** Client → server payloads, by message type. */
+export interface ClientPayloads {
+  /**
+   * `token` is the account token from an earlier hello; without one the server
+   * opens a new account, and one it did not sign is refused with `token-rejected`.
+   */
+  hello: { protocolVersion: number; token?: string }
+  'profile:update': { nickname: string }
+  'random:join': RankedPayload
+  'random:cancel': EmptyPayload
+  'key:create': RankedPayload & { timeControl?: TimeControl }
+  'key:join': { matchKey: string }
+  'spectate:join': { matchKey: string }
+  move: { index: number }
+  'bot:create': { difficulty?: CpuDifficulty; disk?: Disk }
+  leave: EmptyPayload
+}
+
+/** Server → client payloads, by message type. */
+export interface ServerPayloads {
+  hello: { clientId: string; protocolVersion: number; message: string } & AccountPayload
+  /** Sent after a rename and after a ranked game moves the rating. */
+  profile: AccountPayload
+  error: { message: string; code?: ProtocolErrorCode; protocolVersion?: number }
+  'queue:status': { searching: boolean }
+  'match:waiting': { matchKey: string; yourDisk: Disk; ranked: boolean }
+  'match:start': {
+    youAre: MatchRole
+    /** Absent for spectators. */
+    yourDisk?: Disk
+    matchKey: string
+    state: MatchStatePayload
+  }
+  'match:update': { state: MatchStatePayload }
+  'match:end': {
+    reason: MatchEndReason
+    state: MatchStatePayload
+    /** How a ranked game moved each seat's rating; `state.ratings` already includes it. */
+    ratingChanges?: Record<Disk, number>
+  }
+  'prompt:spectate': { matchKey: string }
+}
+
+export type ClientMessageType = keyof ClientPayloads
+export type ServerMessageType = keyof ServerPayloads
+
+type MessageUnion<Payloads> = {
+  [Type in keyof Payloads]: { type: Type; payload: Payloads[Type] }
+}[keyof Payloads]
+
+export type ClientMessage = MessageUnion<ClientPayloads>
+export type ServerMessage = MessageUnion<ServerPayloads>
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string }
+
+type PayloadValidators<Payloads> = {
+  [Type in keyof Payloads]: (payload: Record<string, unknown>) => Payloads[Type] | null
+}
+
+const CPU_DIFFICULTIES: Record<CpuDifficulty, true> = {
+  easy: true,
+  normal: true,
+  hard: true,
+  saikyo: true,
+}
+
+export const isCpuDifficulty = (value: unknown): value is CpuDifficulty =>
+  typeof value === 'string' && Object.hasOwn(CPU_DIFFICULTIES, value)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+const isDisk = (value: unknown): value is Disk => value === 'B' || value === 'W'
+
+const isCell = (value: unknown): value is Cell => value === null || isDisk(value)
+
+const isSquare = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < BOARD_SIZE * BOARD_SIZE
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const isMatchKey = (value: unknown): value is string => typeof value === 'string' && value.length > 0
+
+/**
+ * Trims a requested display name, drops control characters and caps its
+ * length. Returns null when nothing usable is left.
+ */
+export const normalizeNickname = (value: string) => {
+  const cleaned = value.replace(/\p{Cc}/gu, '').trim()
+  const nickname = Array.from(cleaned).slice(0, MAX_NICKNAME_LENGTH).join('').trim()
+  return nickname || null
+}
+
+const isNameSlot = (value: unknown) => value === null || typeof value === 'string'
+
+const isRatingSlot = (value: unknown) => value === null || typeof value === 'number'
+
+const accountPayload = (payload: Record<string, unknown>): AccountPayload | null => {
+  const { nickname, token, rating, ratedGames } = payload
+  return typeof nickname === 'string' &&
+    typeof token === 'string' &&
+    typeof rating === 'number' &&
+    isCount(ratedGames)
+    ? { nickname, token, rating, ratedGames }
+    : null
+}
+
+const rankedPayload = (payload: Record<string, unknown>) => {
+  if (payload.ranked === undefined) return {}
+  return typeof payload.ranked === 'boolean' ? { ranked: payload.ranked } : null
+}
+
+const isDuration = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+
+export const isTimeControl = (value: unknown): value is TimeControl => {
+  if (!isRecord(value)) return false
+  if (value.kind === 'fischer') {
+    return (
+      isDuration(value.initialMs, 1000, MAX_TIME_CONTROL_MS) &&
+      isDuration(value.incrementMs, 0, MAX_TIME_CONTROL_STEP_MS)
+    )
+  }
+  // Byo-yomi may have no main time at all: every move then gets one period.
+  return (
+    value.kind === 'byoyomi' &&
+    isDuration(value.initialMs, 0, MAX_TIME_CONTROL_MS) &&
+    isDuration(value.periodMs, 1000, MAX_TIME_CONTROL_STEP_MS)
+  )
+}
+
+const isClocks = (value: unknown) =>
+  value === null || (isRecord(value) && isCount(value.B) && isCount(value.W))
+
+const emptyPayload = (): EmptyPayload => ({})
+
+const matchKeyPayload = (payload: Record<string, unknown>) =>
+  isMatchKey(payload.matchKey) ? { matchKey: payload.matchKey } : null
+
+const isBotInfo = (value: unknown): value is MatchStatePayload['bot'] =>
+  value === null ||
+  (isRecord(value) &&
+    isDisk(value.disk) &&
+    isCpuDifficulty(value.difficulty) &&
+    typeof value.seed === 'number')
+
+const parseMatchState = (value: unknown): MatchStatePayload | null => {
+  if (!isRecord(value)) return null
+  const { board, moves, scores, winner, names, ratings } = value
+  const valid =
+    isMatchKey(value.matchKey) &&
+    Array.isArray(board) &&
+    board.length === BOARD_SIZE * BOARD_SIZE &&
+    board.every(isCell) &&
+    isDisk(value.currentDisk) &&
+    (value.lastMove === null || isSquare(value.lastMove)) &&
+    Array.isArray(moves) &&
+    moves.every(isMoveRecord) &&
+    isRecord(scores) &&
+    isCount(scores.B) &&
+    isCount(scores.W) &&
+    isCount(value.spectators) &&
+    typeof value.statusMessage === 'string' &&
+    (winner === null || winner === 'draw' || isDisk(winner)) &&
+    (value.turnDeadline === null || typeof value.turnDeadline === 'number') &&
+    (value.timeControl === null || isTimeControl(value.timeControl)) &&
+    isClocks(value.clocks) &&
+    isRecord(names) &&
+    isNameSlot(names.B) &&
+    isNameSlot(names.W) &&
+    typeof value.ranked === 'boolean' &&
+    isRecord(ratings) &&
+    isRatingSlot(ratings.B) &&
+    isRatingSlot(ratings.W) &&
+    isBotInfo(value.bot)
+  return valid ? (value as unknown as MatchStatePayload) : null
+}
+
+const statePayload = (payload: Record<string, unknown>) => {
+  const state = parseMatchState(payload.state)
+  return state ? { state } : null
+}
+
+const MATCH_END_REASONS: Record<MatchEndReason, true> = {
+  completed: true,
+  timeout: true,
+  'opponent-left': true,
+  'host-left': true,
+}
+
+const PROTOCOL_ERROR_CODES: Record<ProtocolErrorCode, true> = {
+  'protocol-mismatch': true,
+  'session-replaced': true,
+  'token-rejected': true,
+}
+
+// One validator per message type: a new type doesn't compile until it has one.
+const CLIENT_VALIDATORS: PayloadValidators<ClientPayloads> = {
+  hello: (payload) => {
+    if (typeof payload.protocolVersion !== 'number') return null
+    if (payload.token !== undefined && typeof payload.token !== 'string') return null
+    return payload.token === undefined
+      ? { protocolVersion: payload.protocolVersion }
+      : { protocolVersion: payload.protocolVersion, token: payload.token }
+  },
+  'profile:update': (payload) => {
+    const nickname = typeof payload.nickname === 'string' ? normalizeNickname(payload.nickname) : null
+    return nickname ? { nickname } : null
+  },
+  'random:join': rankedPayload,
+  'random:cancel': emptyPayload,
+  'key:create': (payload) => {
+    const ranked = rankedPayload(payload)
+    if (!ranked) return null
+    if (payload.timeControl === undefined) return ranked
+    return isTimeControl(payload.timeControl) ? { ...ranked, timeControl: payload.timeControl } : null
+  },
+  'key:join': matchKeyPayload,
+  'spectate:join': matchKeyPayload,
+  move: (payload) => (isSquare(payload.index) ? { index: payload.index } : null),
+  'bot:create': (payload) => {
+    const { difficulty, disk } = payload
+    if (difficulty !== undefined && !isCpuDifficulty(difficulty)) return null
+    if (disk !== undefined && !isDisk(disk)) return null
+    return { difficulty, disk }
+  },
+  leave: emptyPayload,
+}
+
+const SERVER_VALIDATORS: PayloadValidators<ServerPayloads> = {
+  hello: (payload) => {
+    const account = accountPayload(payload)
+    return account &&
+      typeof payload.clientId === 'string' &&
+      typeof payload.protocolVersion === 'number' &&
+      typeof payload.message === 'string'
+      ? {
+          clientId: payload.clientId,
+          protocolVersion: payload.protocolVersion,
+          message: payload.message,
+          ...account,
+        }
+      : null
+  },
+  profile: accountPayload,
+  error: (payload) => {
+    const { message, code, protocolVersion } = payload
+    if (typeof message !== 'string') return null
+    if (code !== undefined && !(typeof code === 'string' && Object.hasOwn(PROTOCOL_ERROR_CODES, code))) {
+      return null
+    }
+    if (protocolVersion !== undefined && typeof protocolVersion !== 'number') return null
+    return { message, code: code as ProtocolErrorCode | undefined, protocolVersion }
+  },
+  'queue:status': (payload) =>
+    typeof payload.searching === 'boolean' ? { searching: payload.searching } : null,
+  'match:waiting': (payload) =>
+    isMatchKey(payload.matchKey) && isDisk(payload.yourDisk) && typeof payload.ranked === 'boolean'
+      ? { matchKey: payload.matchKey, yourDisk: payload.yourDisk, ranked: payload.ranked }
+      : null,
+  'match:start': (payload) => {
+    const { youAre, yourDisk, matchKey } = payload
+    const state = parseMatchState(payload.state)
+    if (!state || !isMatchKey(matchKey)) return null
+    if (youAre === 'spectator') return { youAre, matchKey, state }
+    return youAre === 'player' && isDisk(yourDisk) ? { youAre, yourDisk, matchKey, state } : null
+  },
+  'match:update': statePayload,
+  'match:end': (payload) => {
+    const { reason, ratingChanges } = payload
+    const state = parseMatchState(payload.state)
+    if (!state || typeof reason !== 'string' || !Object.hasOwn(MATCH_END_REASONS, reason)) return null
+    if (ratingChanges === undefined) return { reason: reason as MatchEndReason, state }
+    return isRecord(ratingChanges) &&
+      typeof ratingChanges.B === 'number' &&
+      typeof ratingChanges.W === 'number'
+      ? { reason: reason as MatchEndReason, state, ratingChanges: { B: ratingChanges.B, W: ratingChanges.W } }
+      : null
+  },
+  'prompt:spectate': matchKeyPayload,
+}
+
+const parseMessage = <Payloads>(
+  raw: string,
+  validators: PayloadValidators<Payloads>,
+): ParseResult<MessageUnion<Payloads>> => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return { ok: false, error: 'Malformed message.' }
+  }
+  if (!isRecord(parsed) || typeof parsed.type !== 'string') {
+    return { ok: false, error: 'Malformed message.' }
+  }
+  const { type } = parsed
+  if (!Object.hasOwn(validators, type)) {
+    return { ok: false, error: `Unknown message type: ${type}` }
+  }
+  const rawPayload = parsed.payload ?? {}
+  const payload = isRecord(rawPayload)
+    ? validators[type as keyof Payloads](rawPayload)
+    : null
+  if (!payload) return { ok: false, error: `Invalid payload for ${type}.` }
+  return { ok: true, message: { type, payload } as MessageUnion<Payloads> }
+}
+
+/** Parses and validates one client → server frame. */
+export const parseClientMessage = (raw: string) => parseMessage(raw, CLIENT_VALIDATORS)
+
+/** Parses and validates one server → client frame. */
+export const parseServerMessage = (raw: string) => parseMessage(raw, SERVER_VALIDATORS)
+
+export const encodeMessage = (message: ClientMessage | ServerMessage) => JSON.stringify(message)
+
+/** Exhaustiveness check for message switches: only compiles once every type has a case. */
+export const unhandledMessage = (message: never): never => {
+  throw new Error(`Unhandled message: ${JSON.stringify(message)}`)
+}
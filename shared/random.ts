@@ -0,0 +1,38 @@
+/** Uniform number in [0, 1), the same contract as `Math.random`. */
+export type RandomSource = () => number
+
+const UINT32_RANGE = 2 ** 32
+
+/** mulberry32: tiny and fast; not for secrets, but enough to replay a game exactly. */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE
+  }
+}
+
+/** Fresh 32-bit seed, drawn from `random` (defaults to `Math.random`). */
+export const createRandomSeed = (random: RandomSource = Math.random) =>
+  Math.floor(random() * UINT32_RANGE)
+
+/**
+ * Independent seed for the `index`-th sub-stream of `seed` (e.g. one per ply),
+ * so each CPU move can be reproduced without replaying the ones before it.
+ */
+export const deriveSeed = (seed: number, index: number) => {
+  let h = Math.imul((seed ^ 0x9e3779b9) >>> 0, 0x85ebca6b) ^ Math.imul(index + 1, 0xc2b2ae35)
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d)
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/** Seed from an environment variable or user input; null when absent or not a whole number. */
+export const parseSeed = (value: string | undefined | null): number | null => {
+  if (value === undefined || value === null || value.trim() === '') return null
+  const seed = Number(value)
+  return Number.isInteger(seed) ? seed >>> 0 : null
+}
@@ -2,34 +2,55 @@ import type { ChangeEvent, FormEvent } from 'react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
 import {
-  chooseCpuMove,
   CPU_DIFFICULTY_LABELS,
   CPU_DIFFICULTY_PRESETS,
+  CPU_PERSONALITY_LABELS,
+  decidedMargin,
   type CpuDifficulty,
+  type CpuMoveResult,
+  type CpuMoveScore,
+  type CpuPersonality,
 } from './lib/cpuPlayer'
 import {
-  applyMove,
   computeValidMoves,
   countDisks,
   createInitialBoard,
+  createInitialPosition,
   DISK_LABEL,
+  formatGgf,
+  formatMoveList,
+  indexToCoordinate,
+  isMoveRecord,
   nextDisk,
+  parseGgf,
+  parseMoveList,
+  replayMoves,
   type Cell,
   type Disk,
   type MoveMap,
+  type MoveRecord,
 } from './lib/othello'
+import { identifyOpening } from './lib/openingBook'
+import { MAX_NICKNAME_LENGTH, type TimeControl } from './lib/protocol'
+import { createRandomSeed, deriveSeed, parseSeed } from './lib/random'
 import useOnlineMatch, {
   DEFAULT_MATCH_SERVER_URL,
   type RemoteState,
 } from './hooks/useOnlineMatch'
 import useMatchAudioCues from './hooks/useMatchAudioCues'
+import useCpuWorker from './hooks/useCpuWorker'
+import BoardGrid, { type CellHint } from './components/BoardGrid'
+import ReplayViewer from './components/ReplayViewer'
 
-const BOARD_INDICES = Array.from({ length: 64 }, (_, index) => index)
+const BOARD_SIZE = 64
 type GameMode = 'local' | 'online'
 type StoredLocalGame = {
-  board: Cell[]
-  currentDisk: Disk
-  lastMove: number | null
+  /** The board, side to move and last move are replayed from this on load. */
+  moves: MoveRecord[]
+  /** Plies taken back with undo, in play order, so redo can restore them. */
+  redoMoves: MoveRecord[]
+  /** Seeds the CPU's random choices; the reply at ply n uses `deriveSeed(seed, n)`. */
+  seed: number
   statusMessage: string
   timestamp: number
 }
@@ -39,23 +60,60 @@ interface InitialSnapshots {
   localGame: StoredLocalGame | null
   remoteState: StoredRemoteSnapshot | null
 }
+type RecordFormat = 'moves' | 'ggf'
+type ReplayGame = {
+  moves: MoveRecord[]
+  title: string
+}
 type LocalCpuSettings = {
   humanDisk: Disk
   difficulty: CpuDifficulty
+  personality: CpuPersonality
+  /** Overlay CPU scores on the legal moves during the human's turn. */
+  hints: boolean
+}
+type MoveHints = {
+  /** Ply count the scores were computed for, so stale results are never shown. */
+  plies: number
+  scores: CpuMoveScore[]
 }
 
 const LOCAL_GAME_STORAGE_KEY = 'othello:local-game'
 const LAST_MODE_STORAGE_KEY = 'othello:last-mode'
 const REMOTE_STATE_STORAGE_KEY = 'othello:last-remote-state'
 const CPU_SETTINGS_STORAGE_KEY = 'othello:cpu-settings'
+const STABLE_OVERLAY_STORAGE_KEY = 'othello:show-stable-discs'
+const RANKED_MATCHES_STORAGE_KEY = 'othello:ranked-matches'
 const DEFAULT_CPU_SETTINGS: LocalCpuSettings = {
   humanDisk: 'B',
   difficulty: 'normal',
+  personality: 'standard',
+  hints: false,
 }
 const CPU_DIFFICULTY_OPTIONS: CpuDifficulty[] = ['easy', 'normal', 'hard', 'saikyo']
+const CPU_PERSONALITY_OPTIONS: CpuPersonality[] = ['standard', 'greedy', 'edge', 'mobility', 'random']
+const CPU_PERSONALITY_NOTES: Record<CpuPersonality, string> = {
+  standard: '難易度どおりのバランス型です。',
+  greedy: '目先の石数だけを最大化します (定石なし)。',
+  edge: '辺と角を強く好みます (定石なし)。',
+  mobility: '石を少なく保ち、着手可能数を重視します (定石なし)。',
+  random: '合法手からランダムに打ちます (難易度は無視)。',
+}
 const CPU_MOVE_DELAY_MS = 80
+const HINT_SEARCH_OPTIONS: { difficulty: CpuDifficulty; endgameEmptiesOverride: number } = {
+  difficulty: 'normal',
+  endgameEmptiesOverride: 10,
+}
 const BUILD_STAMP = __BUILD_STAMP__
 
+const TIME_CONTROL_OPTIONS: Array<{ id: string; timeControl: TimeControl | null }> = [
+  { id: 'none', timeControl: null },
+  { id: 'fischer-5-5', timeControl: { kind: 'fischer', initialMs: 5 * 60000, incrementMs: 5000 } },
+  { id: 'fischer-10-10', timeControl: { kind: 'fischer', initialMs: 10 * 60000, incrementMs: 10000 } },
+  { id: 'byoyomi-5-30', timeControl: { kind: 'byoyomi', initialMs: 5 * 60000, periodMs: 30000 } },
+  { id: 'byoyomi-0-30', timeControl: { kind: 'byoyomi', initialMs: 0, periodMs: 30000 } },
+]
+
 const CONNECTION_LABEL: Record<'disconnected' | 'connecting' | 'open' | 'error', string> = {
   disconnected: '未接続',
   connecting: '接続中…',
@@ -78,21 +136,27 @@ const valueIsCell = (value: unknown): value is Cell =>
 
 const isValidBoard = (value: unknown): value is Cell[] =>
   Array.isArray(value) &&
-  value.length === BOARD_INDICES.length &&
+  value.length === BOARD_SIZE &&
   value.every((cell) => valueIsCell(cell))
 
+const isValidMoveList = (value: unknown): value is MoveRecord[] =>
+  Array.isArray(value) && value.every((record) => isMoveRecord(record))
+
 const parseLocalGameSnapshot = (raw: string | null): StoredLocalGame | null => {
   if (!raw) return null
   try {
     const data = JSON.parse(raw) as Partial<StoredLocalGame>
-    if (!isValidBoard(data.board) || !isDisk(data.currentDisk)) return null
-    const lastMove = typeof data.lastMove === 'number' ? data.lastMove : null
+    if (!isValidMoveList(data.moves) || !replayMoves(data.moves)) return null
     const statusMessage =
       typeof data.statusMessage === 'string' ? data.statusMessage : 'Black to move first.'
+    const redoMoves =
+      isValidMoveList(data.redoMoves) && replayMoves([...data.moves, ...data.redoMoves])
+        ? data.redoMoves
+        : []
     return {
-      board: data.board,
-      currentDisk: data.currentDisk,
-      lastMove,
+      moves: data.moves,
+      redoMoves,
+      seed: typeof data.seed === 'number' ? data.seed >>> 0 : createRandomSeed(),
       statusMessage,
       timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
     }
@@ -113,12 +177,19 @@ const parseRemoteSnapshot = (raw: string | null): StoredRemoteSnapshot | null =>
       board: data.board,
       currentDisk: data.currentDisk,
       lastMove: typeof data.lastMove === 'number' ? data.lastMove : null,
+      moves: isValidMoveList(data.moves) ? data.moves : [],
       scores: data.scores ?? countDisks(data.board),
       spectators: typeof data.spectators === 'number' ? data.spectators : 0,
       statusMessage:
         typeof data.statusMessage === 'string' ? data.statusMessage : 'Reconnecting…',
       winner: (data.winner ?? null) as RemoteState['winner'],
       turnDeadline: typeof data.turnDeadline === 'number' ? data.turnDeadline : null,
+      names: data.names ?? { B: null, W: null },
+      timeControl: data.timeControl ?? null,
+      clocks: data.clocks ?? null,
+      ranked: data.ranked ?? false,
+      ratings: data.ratings ?? { B: null, W: null },
+      bot: data.bot ?? null,
       timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
     }
   } catch {
@@ -126,6 +197,29 @@ const parseRemoteSnapshot = (raw: string | null): StoredRemoteSnapshot | null =>
   }
 }
 
+const isHumanMove = (record: MoveRecord, humanDisk: Disk) =>
+  record.disk === humanDisk && record.index !== null
+
+/**
+ * Splits off the plies to take back for one undo: the human's last move and
+ * every CPU reply (or pass) after it. Returns null when the human has not moved.
+ */
+const splitUndoTurn = (moves: MoveRecord[], humanDisk: Disk) => {
+  for (let index = moves.length - 1; index >= 0; index -= 1) {
+    if (isHumanMove(moves[index], humanDisk)) {
+      return { kept: moves.slice(0, index), undone: moves.slice(index) }
+    }
+  }
+  return null
+}
+
+/** The inverse of `splitUndoTurn`: the next human move plus the replies that followed it. */
+const splitRedoTurn = (redoMoves: MoveRecord[], humanDisk: Disk) => {
+  let end = 1
+  while (end < redoMoves.length && !isHumanMove(redoMoves[end], humanDisk)) end += 1
+  return { restored: redoMoves.slice(0, end), remaining: redoMoves.slice(end) }
+}
+
 const loadInitialSnapshots = (): InitialSnapshots => {
   if (typeof window === 'undefined') {
     return { mode: 'local', localGame: null, remoteState: null }
@@ -147,7 +241,12 @@ const parseCpuSettingsSnapshot = (raw: string | null): LocalCpuSettings => {
     )
       ? (data?.difficulty as CpuDifficulty)
       : DEFAULT_CPU_SETTINGS.difficulty
-    return { humanDisk, difficulty }
+    const personality: CpuPersonality = CPU_PERSONALITY_OPTIONS.includes(
+      data?.personality as CpuPersonality,
+    )
+      ? (data?.personality as CpuPersonality)
+      : DEFAULT_CPU_SETTINGS.personality
+    return { humanDisk, difficulty, personality, hints: data?.hints === true }
   } catch {
     return DEFAULT_CPU_SETTINGS
   }
@@ -158,6 +257,28 @@ const loadInitialCpuSettings = (): LocalCpuSettings => {
   return parseCpuSettingsSnapshot(window.localStorage.getItem(CPU_SETTINGS_STORAGE_KEY))
 }
 
+const describeCpuPreset = (difficulty: CpuDifficulty) => {
+  const preset = CPU_DIFFICULTY_PRESETS[difficulty]
+  const parts = [
+    preset.timeLimitMs
+      ? `思考時間: ${preset.timeLimitMs / 1000}秒`
+      : `探索深さ: ${preset.maxDepth}`,
+  ]
+  if (preset.endgameEmpties) parts.push(`残り${preset.endgameEmpties}マスから完全読み`)
+  if (preset.bookDepth) parts.push(`定石: ${preset.bookDepth}手目まで`)
+  return parts.join(' / ')
+}
+
+const describeCpuProgress = (progress: CpuMoveResult | null) => {
+  if (!progress) return 'CPUが思考中…'
+  if (progress.book && progress.move !== null) {
+    return `CPUが思考中… 定石 / 候補: ${indexToCoordinate(progress.move)}`
+  }
+  const depthLabel = progress.exact ? `完全読み (残り${progress.depth})` : `深さ${progress.depth}`
+  if (progress.move === null) return `CPUが思考中… ${depthLabel}`
+  return `CPUが思考中… ${depthLabel} / 候補: ${indexToCoordinate(progress.move)}`
+}
+
 const formatCountdown = (ms: number | null) => {
   if (ms === null) return null
   const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
@@ -166,21 +287,48 @@ const formatCountdown = (ms: number | null) => {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`
 }
 
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000)
+  return seconds % 60 === 0 ? `${seconds / 60}分` : `${seconds}秒`
+}
+
+const formatTimeControl = (timeControl: TimeControl | null) => {
+  if (!timeControl) return 'なし (1手3分)'
+  if (timeControl.kind === 'fischer') {
+    return timeControl.incrementMs > 0
+      ? `${formatDuration(timeControl.initialMs)} + 1手ごとに${formatDuration(timeControl.incrementMs)}加算`
+      : `${formatDuration(timeControl.initialMs)} 切れ負け`
+  }
+  const period = `秒読み${formatDuration(timeControl.periodMs)}`
+  return timeControl.initialMs > 0 ? `${formatDuration(timeControl.initialMs)} + ${period}` : period
+}
+
 function App() {
   const initialSnapshotsRef = useRef<InitialSnapshots | null>(null)
   if (initialSnapshotsRef.current === null) {
     initialSnapshotsRef.current = loadInitialSnapshots()
   }
   const initialSnapshots = initialSnapshotsRef.current as InitialSnapshots
-  const [board, setBoard] = useState<Cell[]>(
-    () => initialSnapshots?.localGame?.board ?? createInitialBoard(),
+  const [moveHistory, setMoveHistory] = useState<MoveRecord[]>(
+    () => initialSnapshots?.localGame?.moves ?? [],
+  )
+  const localPosition = useMemo(
+    () => replayMoves(moveHistory) ?? createInitialPosition(),
+    [moveHistory],
   )
-  const [currentDisk, setCurrentDisk] = useState<Disk>(
-    () => initialSnapshots?.localGame?.currentDisk ?? 'B',
+  const { board, currentDisk, lastMove } = localPosition
+  const [redoMoves, setRedoMoves] = useState<MoveRecord[]>(
+    () => initialSnapshots?.localGame?.redoMoves ?? [],
   )
-  const [lastMove, setLastMove] = useState<number | null>(
-    () => initialSnapshots?.localGame?.lastMove ?? null,
+  const [recordFormat, setRecordFormat] = useState<RecordFormat>('moves')
+  const [recordImportInput, setRecordImportInput] = useState('')
+  const [recordImportError, setRecordImportError] = useState<string | null>(null)
+  const [recordImportSeed, setRecordImportSeed] = useState('')
+  const [gameSeed, setGameSeed] = useState(
+    () => initialSnapshots?.localGame?.seed ?? createRandomSeed(),
   )
+  const [recordCopied, setRecordCopied] = useState(false)
+  const [replayGame, setReplayGame] = useState<ReplayGame | null>(null)
   const [statusMessage, setStatusMessage] = useState(
     () => initialSnapshots?.localGame?.statusMessage ?? 'Black to move first.',
   )
@@ -192,9 +340,16 @@ function App() {
   const initialCpuSettings = initialCpuSettingsRef.current as LocalCpuSettings
   const [cpuSettings, setCpuSettings] = useState<LocalCpuSettings>(initialCpuSettings)
   const [cpuThinking, setCpuThinking] = useState(false)
+  const [cpuProgress, setCpuProgress] = useState<CpuMoveResult | null>(null)
+  const { requestCpuMove, cancelCpuSearch } = useCpuWorker()
+  // Hints get their own worker so scoring never cancels the CPU's search (or vice versa).
+  const { requestMoveScores } = useCpuWorker()
+  const [moveHints, setMoveHints] = useState<MoveHints | null>(null)
   const humanDisk = cpuSettings.humanDisk
   const cpuDisk = nextDisk(humanDisk)
   const cpuDifficulty = cpuSettings.difficulty
+  const cpuPersonality = cpuSettings.personality
+  const hintsEnabled = cpuSettings.hints
   const isOnlineMode = mode === 'online'
   const isLocalMode = mode === 'local'
   const [matchKeyInput, setMatchKeyInput] = useState('')
@@ -203,8 +358,23 @@ function App() {
   const [serverUrlError, setServerUrlError] = useState<string | null>(null)
   const [serverSettingsCollapsed, setServerSettingsCollapsed] = useState(false)
   const [onlinePanelCollapsed, setOnlinePanelCollapsed] = useState(false)
+  const [onlineBotDifficulty, setOnlineBotDifficulty] = useState<CpuDifficulty>('normal')
+  const [nicknameInput, setNicknameInput] = useState('')
+  const [transferCodeInput, setTransferCodeInput] = useState('')
+  const [transferCodeCopied, setTransferCodeCopied] = useState(false)
+  const [timeControlOptionId, setTimeControlOptionId] = useState(TIME_CONTROL_OPTIONS[0].id)
+  const [rankedMatches, setRankedMatches] = useState(
+    () =>
+      typeof window === 'undefined' ||
+      window.localStorage.getItem(RANKED_MATCHES_STORAGE_KEY) !== 'false',
+  )
   const fallbackTurnDeadline = initialSnapshots.remoteState?.turnDeadline ?? null
   const [turnCountdownMs, setTurnCountdownMs] = useState<number | null>(null)
+  const [showStableDiscs, setShowStableDiscs] = useState(
+    () =>
+      typeof window !== 'undefined' &&
+      window.localStorage.getItem(STABLE_OVERLAY_STORAGE_KEY) === 'true',
+  )
 
   useEffect(() => {
     if (typeof window === 'undefined') return
@@ -226,9 +396,14 @@ function App() {
     role: onlineRole,
     yourDisk: onlineDisk,
     lastError: onlineError,
+    ratingChanges: onlineRatingChanges,
+    account: onlineAccount,
+    updateNickname,
+    adoptAccountToken,
     startRandomMatch,
     cancelRandomMatch,
     createKeyMatch,
+    startBotMatch,
     joinByKey,
     spectateByKey,
     acceptSpectatePrompt,
@@ -282,9 +457,9 @@ function App() {
   const resetGame = useCallback(
     (options?: { humanDisk?: Disk }) => {
       const nextHumanDisk = options?.humanDisk ?? humanDisk
-      setBoard(createInitialBoard())
-      setCurrentDisk('B')
-      setLastMove(null)
+      setMoveHistory([])
+      setRedoMoves([])
+      setGameSeed(createRandomSeed())
       setStatusMessage(
         nextHumanDisk === 'B'
           ? 'New game started. You (Black) move first.'
@@ -301,13 +476,37 @@ function App() {
       const flips = validMoves.get(index)
       if (!flips || isGameOver) return
 
-      setBoard((prev) => applyMove(prev, index, currentDisk, flips))
-      setCurrentDisk((prev) => nextDisk(prev))
-      setLastMove(index)
+      setMoveHistory((prev) => [...prev, { disk: currentDisk, index }])
+      setRedoMoves([])
     },
     [currentDisk, humanDisk, isGameOver, validMoves],
   )
 
+  const undoTurn = useMemo(() => splitUndoTurn(moveHistory, humanDisk), [humanDisk, moveHistory])
+  const canUndo = isLocalMode && undoTurn !== null
+  const canRedo = isLocalMode && redoMoves.length > 0 && !cpuThinking
+
+  const handleUndo = useCallback(() => {
+    if (!undoTurn) return
+    // Cancel a search in flight explicitly so its result can never land on the restored position.
+    cancelCpuSearch()
+    setCpuThinking(false)
+    setMoveHistory(undoTurn.kept)
+    setRedoMoves((prev) => [...undoTurn.undone, ...prev])
+  }, [cancelCpuSearch, undoTurn])
+
+  const handleRedo = useCallback(() => {
+    if (!redoMoves.length || cpuThinking) return
+    const { restored, remaining } = splitRedoTurn(redoMoves, humanDisk)
+    const next = [...moveHistory, ...restored]
+    if (!replayMoves(next)) {
+      setRedoMoves([])
+      return
+    }
+    setMoveHistory(next)
+    setRedoMoves(remaining)
+  }, [cpuThinking, humanDisk, moveHistory, redoMoves])
+
   useEffect(() => {
     if (!isLocalMode) {
       setCpuThinking(false)
@@ -319,43 +518,114 @@ function App() {
     }
     if (typeof window === 'undefined') return
 
-    let cancelled = false
+    const controller = new AbortController()
     setCpuThinking(true)
+    setCpuProgress(null)
 
     const timerId = window.setTimeout(() => {
-      const result = chooseCpuMove(board, cpuDisk, { difficulty: cpuDifficulty })
-      if (cancelled) return
-      if (result.move === null) {
-        setCpuThinking(false)
-        return
-      }
-      const flips = validMoves.get(result.move)
-      if (!flips) {
-        setCpuThinking(false)
-        return
-      }
-
-      const nextBoard = applyMove(board, result.move, cpuDisk, flips)
-      setBoard(nextBoard)
-      setCurrentDisk(nextDisk(cpuDisk))
-      setLastMove(result.move)
-      setCpuThinking(false)
+      requestCpuMove(
+        board,
+        cpuDisk,
+        {
+          difficulty: cpuDifficulty,
+          personality: cpuPersonality,
+          seed: deriveSeed(gameSeed, moveHistory.length),
+        },
+        { signal: controller.signal, onProgress: setCpuProgress },
+      )
+        .then((result) => {
+          if (controller.signal.aborted) return
+          if (result.move === null) {
+            setCpuThinking(false)
+            return
+          }
+          const cpuMove = result.move
+          if (!validMoves.has(cpuMove)) {
+            setCpuThinking(false)
+            return
+          }
+
+          setMoveHistory((prev) => [...prev, { disk: cpuDisk, index: cpuMove }])
+          setCpuThinking(false)
+        })
+        .catch((error: unknown) => {
+          if (controller.signal.aborted) return
+          if (error instanceof DOMException && error.name === 'AbortError') return
+          console.warn('CPU search failed', error)
+          setCpuThinking(false)
+        })
     }, CPU_MOVE_DELAY_MS)
 
     return () => {
-      cancelled = true
+      controller.abort()
       window.clearTimeout(timerId)
     }
   }, [
     board,
     cpuDifficulty,
     cpuDisk,
+    cpuPersonality,
+    gameSeed,
+    moveHistory.length,
     currentDisk,
     isGameOver,
     isLocalMode,
+    requestCpuMove,
     validMoves,
   ])
 
+  useEffect(() => {
+    if (!isLocalMode || !hintsEnabled || currentDisk !== humanDisk || validMoves.size === 0) {
+      setMoveHints(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const plies = moveHistory.length
+    requestMoveScores(board, humanDisk, HINT_SEARCH_OPTIONS, { signal: controller.signal })
+      .then((scores) => {
+        if (!controller.signal.aborted) setMoveHints({ plies, scores })
+      })
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return
+        console.warn('Hint search failed', error)
+      })
+
+    return () => controller.abort()
+  }, [
+    board,
+    currentDisk,
+    hintsEnabled,
+    humanDisk,
+    isLocalMode,
+    moveHistory.length,
+    requestMoveScores,
+    validMoves,
+  ])
+
+  const boardHints = useMemo(() => {
+    const hints = new Map<number, CellHint>()
+    if (!moveHints || moveHints.plies !== moveHistory.length) return hints
+    const [best] = moveHints.scores
+    // Exact scores are disc margins already; only heuristic ones carry the decided-game bonus.
+    const marginOf = ({ score, exact }: CpuMoveScore) => (exact ? null : decidedMargin(score))
+    const bestMargin = marginOf(best)
+    for (const candidate of moveHints.scores) {
+      const { move, score } = candidate
+      const margin = marginOf(candidate)
+      if (margin !== null) {
+        hints.set(move, { label: margin > 0 ? `勝+${margin}` : `負${margin}`, best: score === best.score })
+      } else if (bestMargin !== null && bestMargin > 0) {
+        // A loss measured against a forced win would be the bonus, not a disc count.
+        hints.set(move, { label: '×', best: false })
+      } else {
+        const loss = Math.round(best.score - score)
+        hints.set(move, { label: loss === 0 ? '★' : `-${loss}`, best: loss === 0 })
+      }
+    }
+    return hints
+  }, [moveHints, moveHistory.length])
+
   useEffect(() => {
     if (isGameOver) {
       if (scores.B === scores.W) {
@@ -371,12 +641,16 @@ function App() {
 
     if (validMoves.size === 0) {
       setStatusMessage(`${DISK_LABEL[currentDisk]} has no moves. Passing turn.`)
-      setCurrentDisk((prev) => nextDisk(prev))
+      const plies = moveHistory.length
+      // Guard against appending the same pass twice if the effect re-runs before the update lands.
+      setMoveHistory((prev) =>
+        prev.length === plies ? [...prev, { disk: currentDisk, index: null }] : prev,
+      )
       return
     }
 
     setStatusMessage(`${DISK_LABEL[currentDisk]} to move.`)
-  }, [currentDisk, isGameOver, scores, validMoves])
+  }, [currentDisk, isGameOver, moveHistory.length, scores, validMoves])
 
   const defaultOnlineBoard = useMemo(
     () => initialSnapshots.remoteState?.board ?? createInitialBoard(),
@@ -429,6 +703,11 @@ function App() {
     return validMoves
   }, [defaultOnlineMoves, isOnlineMode, remoteState, remoteValidMoves, validMoves])
 
+  const openingName = useMemo(
+    () => identifyOpening(isOnlineMode ? remoteState?.moves ?? [] : moveHistory),
+    [isOnlineMode, moveHistory, remoteState?.moves],
+  )
+
   const displayInsightNote = isOnlineMode
     ? remoteState?.statusMessage ?? fallbackOnlineStatus
     : insightMessage
@@ -457,7 +736,31 @@ function App() {
   const turnChipNote =
     showFriendlyTurnCopy && friendlyDiskLabel ? `(${friendlyDiskLabel})` : null
   const turnCountdownLabel = isOnlineMode ? formatCountdown(turnCountdownMs) : null
+  // With a chess clock the side to move counts down to `turnDeadline`; the other side's clock stands still.
+  const clockLabels = (() => {
+    if (!isOnlineMode || !remoteState?.clocks || !remoteState.timeControl) return null
+    const { clocks, timeControl, currentDisk, winner } = remoteState
+    const running = winner || turnCountdownMs === null ? null : currentDisk
+    const period = timeControl.kind === 'byoyomi' ? timeControl.periodMs : 0
+    const describe = (disk: Disk) => {
+      const left = disk === running && turnCountdownMs !== null ? turnCountdownMs : clocks[disk] + period
+      if (period > 0 && left <= period) return `秒読み ${formatCountdown(left)}`
+      return formatCountdown(left - period)
+    }
+    return { running, labels: { B: describe('B'), W: describe('W') } as Record<Disk, string | null> }
+  })()
+  // Online seats show the player's name and, in ranked games, their rating and how the result moved it.
+  const describeSeat = (disk: Disk) => {
+    const name = isOnlineMode ? remoteState?.names[disk] : null
+    if (!remoteState || !name) return null
+    const rating = remoteState.ratings[disk]
+    if (!remoteState.ranked || rating === null) return name
+    const change = onlineRatingChanges?.[disk]
+    return change === undefined ? `${name} (${rating})` : `${name} (${rating}, ${change > 0 ? '+' : ''}${change})`
+  }
+  const seatLabels: Record<Disk, string | null> = { B: describeSeat('B'), W: describeSeat('W') }
   const hasRemoteState = Boolean(remoteState)
+  const hasRemoteClocks = Boolean(remoteState?.clocks)
   const remoteCurrentDisk = remoteState?.currentDisk ?? null
   const remoteHasWinner = Boolean(remoteState?.winner)
 
@@ -470,6 +773,27 @@ function App() {
     !remoteHasWinner &&
     onlineConnectionState === 'open'
 
+  const boardLocked =
+    (isOnlineMode && (!remoteState || !canPlayOnline)) ||
+    (isLocalMode && effectiveCurrentDisk === cpuDisk)
+
+  // Only finished games can be replayed; online records come from the server's move list.
+  const replayableMoves = (() => {
+    if (!effectiveGameOver) return null
+    const moves = isOnlineMode ? remoteState?.moves ?? [] : moveHistory
+    return moves.length > 0 ? moves : null
+  })()
+
+  const openReplay = () => {
+    if (!replayableMoves) return
+    const title = isOnlineMode
+      ? `オンライン対局 (${remoteState?.matchKey ?? ''})`
+      : 'ローカル対局'
+    setReplayGame({ moves: replayableMoves, title })
+  }
+
+  const closeReplay = useCallback(() => setReplayGame(null), [])
+
   const handleCellClick = useCallback(
     (index: number) => {
       if (mode === 'online') {
@@ -493,12 +817,145 @@ function App() {
     setCpuSettings((prev) => ({ ...prev, difficulty: nextDifficulty }))
   }
 
+  const handleCpuPersonalityChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const nextPersonality = event.target.value as CpuPersonality
+    if (!CPU_PERSONALITY_OPTIONS.includes(nextPersonality)) return
+    setCpuSettings((prev) => ({ ...prev, personality: nextPersonality }))
+  }
+
+  const handleOnlineBotDifficultyChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const nextDifficulty = event.target.value as CpuDifficulty
+    if (!CPU_DIFFICULTY_OPTIONS.includes(nextDifficulty)) return
+    setOnlineBotDifficulty(nextDifficulty)
+  }
+
+  const handleStartRandomMatch = () => {
+    startRandomMatch(rankedMatches)
+  }
+
+  const handleCreateKeyMatch = () => {
+    const option = TIME_CONTROL_OPTIONS.find(({ id }) => id === timeControlOptionId)
+    createKeyMatch(rankedMatches, option?.timeControl ?? null)
+  }
+
+  const handleTimeControlChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setTimeControlOptionId(event.target.value)
+  }
+
+  const handleStartBotMatch = () => {
+    startBotMatch(onlineBotDifficulty)
+  }
+
+  const exportedRecord = useMemo(() => {
+    if (recordFormat === 'moves') return formatMoveList(moveHistory)
+    const cpuName =
+      cpuPersonality === 'standard'
+        ? `CPU (${cpuDifficulty})`
+        : `CPU (${cpuDifficulty}, ${cpuPersonality})`
+    return formatGgf(moveHistory, {
+      black: humanDisk === 'B' ? 'You' : cpuName,
+      white: humanDisk === 'W' ? 'You' : cpuName,
+      place: 'Othello Showdown',
+    })
+  }, [cpuDifficulty, cpuPersonality, humanDisk, moveHistory, recordFormat])
+
+  const handleRecordCopy = () => {
+    if (typeof navigator === 'undefined' || !navigator.clipboard) return
+    navigator.clipboard
+      .writeText(exportedRecord)
+      .then(() => setRecordCopied(true))
+      .catch((error: unknown) => console.warn('Failed to copy game record', error))
+  }
+
+  const handleRecordImportChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    setRecordImportInput(event.target.value)
+    setRecordImportError(null)
+  }
+
+  const handleRecordSeedChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setRecordImportSeed(event.target.value)
+    setRecordImportError(null)
+  }
+
+  const handleRecordImport = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const text = recordImportInput.trim()
+    if (!text) {
+      setRecordImportError('棋譜を貼り付けてください。')
+      return
+    }
+    const result = text.includes('(;') ? parseGgf(text) : parseMoveList(text)
+    if (!result.ok) {
+      setRecordImportError(result.error)
+      return
+    }
+    const seed = parseSeed(recordImportSeed)
+    if (recordImportSeed.trim() && seed === null) {
+      setRecordImportError('乱数シードは整数で入力してください。')
+      return
+    }
+    cancelCpuSearch()
+    setCpuThinking(false)
+    setMoveHistory(result.moves)
+    setRedoMoves([])
+    setGameSeed(seed ?? createRandomSeed())
+    setRecordImportInput('')
+    setRecordImportSeed('')
+    setRecordImportError(null)
+    setStatusMessage('Game record imported.')
+  }
+
+  useEffect(() => {
+    setRecordCopied(false)
+  }, [exportedRecord])
+
+  const handleHintsToggle = (enabled: boolean) => {
+    setCpuSettings((prev) => ({ ...prev, hints: enabled }))
+  }
+
   const handleHumanDiskChange = (nextValue: Disk) => {
     if (nextValue === humanDisk) return
     setCpuSettings((prev) => ({ ...prev, humanDisk: nextValue }))
     resetGame({ humanDisk: nextValue })
   }
 
+  const onlineNickname = onlineAccount?.nickname ?? null
+  useEffect(() => {
+    if (onlineNickname) setNicknameInput(onlineNickname)
+  }, [onlineNickname])
+
+  const onlineToken = onlineAccount?.token ?? null
+  useEffect(() => {
+    setTransferCodeCopied(false)
+  }, [onlineToken])
+
+  const handleNicknameChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setNicknameInput(event.target.value)
+  }
+
+  const handleNicknameSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    updateNickname(nicknameInput)
+  }
+
+  const handleTransferCodeCopy = () => {
+    if (!onlineToken || typeof navigator === 'undefined' || !navigator.clipboard) return
+    navigator.clipboard
+      .writeText(onlineToken)
+      .then(() => setTransferCodeCopied(true))
+      .catch((error: unknown) => console.warn('Failed to copy transfer code', error))
+  }
+
+  const handleTransferCodeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setTransferCodeInput(event.target.value)
+  }
+
+  const handleTransferCodeSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    adoptAccountToken(transferCodeInput)
+    setTransferCodeInput('')
+  }
+
   const handleKeyInputChange = (event: ChangeEvent<HTMLInputElement>) => {
     const raw = event.target.value.toUpperCase()
     setMatchKeyInput(raw.replace(/[^A-Z0-9]/g, ''))
@@ -618,17 +1075,31 @@ function App() {
     window.localStorage.setItem(LAST_MODE_STORAGE_KEY, mode)
   }, [mode])
 
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    window.localStorage.setItem(STABLE_OVERLAY_STORAGE_KEY, String(showStableDiscs))
+  }, [showStableDiscs])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    window.localStorage.setItem(RANKED_MATCHES_STORAGE_KEY, String(rankedMatches))
+  }, [rankedMatches])
+
+  const toggleStableDiscs = useCallback(() => {
+    setShowStableDiscs((prev) => !prev)
+  }, [])
+
   useEffect(() => {
     if (typeof window === 'undefined' || isOnlineMode) return
     const snapshot: StoredLocalGame = {
-      board,
-      currentDisk,
-      lastMove,
+      moves: moveHistory,
+      redoMoves,
+      seed: gameSeed,
       statusMessage,
       timestamp: Date.now(),
     }
     window.localStorage.setItem(LOCAL_GAME_STORAGE_KEY, JSON.stringify(snapshot))
-  }, [board, currentDisk, lastMove, statusMessage, isOnlineMode])
+  }, [moveHistory, redoMoves, gameSeed, statusMessage, isOnlineMode])
 
   useEffect(() => {
     if (typeof window === 'undefined' || !remoteState) return
@@ -654,9 +1125,10 @@ function App() {
       setTurnCountdownMs(Math.max(0, deadline - Date.now()))
     }
     update()
-    const timerId = window.setInterval(update, 1000)
+    // A chess clock ticks finer so it never shows a second that has already gone.
+    const timerId = window.setInterval(update, hasRemoteClocks ? 250 : 1000)
     return () => window.clearInterval(timerId)
-  }, [fallbackTurnDeadline, isOnlineMode, remoteState?.turnDeadline])
+  }, [fallbackTurnDeadline, hasRemoteClocks, isOnlineMode, remoteState?.turnDeadline])
 
   return (
     <main className="app-shell">
@@ -709,7 +1181,7 @@ function App() {
           <div className="local-panel-head">
             <p className="label">CPU対戦設定</p>
             <p className={`cpu-status ${cpuThinking ? 'active' : ''}`} aria-live="polite">
-              {cpuThinking ? 'CPUが思考中…' : 'あなたの入力待ち'}
+              {cpuThinking ? describeCpuProgress(cpuProgress) : 'あなたの入力待ち'}
             </p>
           </div>
 
@@ -731,10 +1203,29 @@ function App() {
                 ))}
               </select>
               <p className="helper-text">
-                探索深さ: {CPU_DIFFICULTY_PRESETS[cpuDifficulty].maxDepth}
+                {describeCpuPreset(cpuDifficulty)}
               </p>
             </div>
 
+            <div>
+              <label className="label" htmlFor="cpu-personality-select">
+                打ち筋
+              </label>
+              <select
+                id="cpu-personality-select"
+                className="control-select"
+                value={cpuPersonality}
+                onChange={handleCpuPersonalityChange}
+              >
+                {CPU_PERSONALITY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {CPU_PERSONALITY_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <p className="helper-text">{CPU_PERSONALITY_NOTES[cpuPersonality]}</p>
+            </div>
+
             <div>
               <p className="label">あなたの石</p>
               <div className="local-toggle" role="group" aria-label="あなたの石">
@@ -757,6 +1248,113 @@ function App() {
                 {humanDisk === 'B' ? 'あなたが先手です。' : 'CPU が先手です。'}
               </p>
             </div>
+
+            <div>
+              <p className="label">待った</p>
+              <div className="action-grid">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={handleUndo}
+                  disabled={!canUndo}
+                >
+                  1手戻す
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={handleRedo}
+                  disabled={!canRedo}
+                >
+                  やり直す
+                </button>
+              </div>
+              <p className="helper-text">あなたの手と CPU の応手をまとめて戻します。</p>
+            </div>
+
+            <div>
+              <p className="label">ヒント</p>
+              <div className="local-toggle" role="group" aria-label="ヒント表示">
+                <button
+                  type="button"
+                  className={hintsEnabled ? 'active' : ''}
+                  onClick={() => handleHintsToggle(true)}
+                >
+                  表示する
+                </button>
+                <button
+                  type="button"
+                  className={!hintsEnabled ? 'active' : ''}
+                  onClick={() => handleHintsToggle(false)}
+                >
+                  表示しない
+                </button>
+              </div>
+              <p className="helper-text">あなたの手番で各合法手の評価を表示します (★が最善、数字は最善との差)。</p>
+            </div>
+          </div>
+
+          <div className="record-panel">
+            <div>
+              <p className="label">棋譜を書き出す</p>
+              <div className="local-toggle" role="group" aria-label="棋譜の形式">
+                <button
+                  type="button"
+                  className={recordFormat === 'moves' ? 'active' : ''}
+                  onClick={() => setRecordFormat('moves')}
+                >
+                  f5d6 形式
+                </button>
+                <button
+                  type="button"
+                  className={recordFormat === 'ggf' ? 'active' : ''}
+                  onClick={() => setRecordFormat('ggf')}
+                >
+                  GGF
+                </button>
+              </div>
+              <textarea
+                className="record-textarea"
+                value={exportedRecord}
+                readOnly
+                aria-label="現在の棋譜"
+              />
+              <div className="action-grid">
+                <button type="button" className="btn btn-secondary" onClick={handleRecordCopy}>
+                  {recordCopied ? 'コピーしました' : 'コピー'}
+                </button>
+              </div>
+              <p className="helper-text">
+                この局の乱数シード: {gameSeed} (CPU のノイズ・定石選択はこの値と手数で決まります)
+              </p>
+            </div>
+
+            <form onSubmit={handleRecordImport}>
+              <label className="label" htmlFor="record-import-input">
+                棋譜を読み込む
+              </label>
+              <textarea
+                id="record-import-input"
+                className="record-textarea"
+                value={recordImportInput}
+                onChange={handleRecordImportChange}
+                placeholder="例: f5d6c3d3c4 または (;GM[Othello]...;)"
+              />
+              <input
+                className="key-input record-seed-input"
+                value={recordImportSeed}
+                onChange={handleRecordSeedChange}
+                inputMode="numeric"
+                placeholder="乱数シード (任意、同じ CPU の手を再現するとき)"
+                aria-label="乱数シード"
+              />
+              <div className="action-grid">
+                <button type="submit" className="btn btn-primary">
+                  読み込む
+                </button>
+              </div>
+              {recordImportError && <p className="error-text">{recordImportError}</p>}
+            </form>
           </div>
         </section>
       )}
@@ -801,14 +1399,105 @@ function App() {
             </div>
           </div>
 
+          <div className="account-forms">
+            <form className="key-form" onSubmit={handleNicknameSubmit}>
+              <label className="label" htmlFor="nickname-input">
+                ニックネーム
+              </label>
+              <div className="server-url-row">
+                <input
+                  id="nickname-input"
+                  className="server-url-input"
+                  value={nicknameInput}
+                  onChange={handleNicknameChange}
+                  maxLength={MAX_NICKNAME_LENGTH}
+                  placeholder="対戦相手に表示される名前"
+                  autoComplete="nickname"
+                />
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={onlineConnectionState !== 'open' || nicknameInput.trim() === onlineNickname}
+                >
+                  保存
+                </button>
+              </div>
+              {onlineAccount && (
+                <p className="helper-text">
+                  レート {onlineAccount.rating} (レート戦 {onlineAccount.ratedGames} 局)
+                </p>
+              )}
+            </form>
+
+            <form className="key-form" onSubmit={handleTransferCodeSubmit}>
+              <label className="label" htmlFor="transfer-code-input">
+                引き継ぎコード
+              </label>
+              <div className="action-grid">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={handleTransferCodeCopy}
+                  disabled={!onlineToken}
+                >
+                  {transferCodeCopied ? 'コピーしました' : 'このアカウントのコードをコピー'}
+                </button>
+              </div>
+              <div className="server-url-row">
+                <input
+                  id="transfer-code-input"
+                  className="server-url-input"
+                  value={transferCodeInput}
+                  onChange={handleTransferCodeChange}
+                  placeholder="別の端末でコピーしたコード"
+                  autoComplete="off"
+                />
+                <button
+                  type="submit"
+                  className="btn btn-secondary"
+                  disabled={!transferCodeInput.trim() || onlinePhase === 'active'}
+                >
+                  引き継ぐ
+                </button>
+              </div>
+              <p className="helper-text">
+                コードを貼り付けると、その端末のアカウント (名前と対戦中の席) でこの端末から接続します。
+                コードは他人に教えないでください。
+              </p>
+            </form>
+          </div>
+
           <div className="online-actions">
+            <div>
+              <p className="label">対戦の種類</p>
+              <div className="local-toggle" role="group" aria-label="レート戦の切り替え">
+                <button
+                  type="button"
+                  className={rankedMatches ? 'active' : ''}
+                  onClick={() => setRankedMatches(true)}
+                >
+                  レート戦
+                </button>
+                <button
+                  type="button"
+                  className={!rankedMatches ? 'active' : ''}
+                  onClick={() => setRankedMatches(false)}
+                >
+                  フリー対戦
+                </button>
+              </div>
+              <p className="helper-text">
+                ランダムマッチと新しく発行するキーに適用されます。レート戦は近いレートの相手を優先し、勝敗 (時間切れ・退出は負け) でレートが変動します。
+              </p>
+            </div>
+
             <div>
               <p className="label">ランダムマッチ</p>
               <div className="action-grid">
                 <button
                   type="button"
                   className="btn btn-primary"
-                  onClick={startRandomMatch}
+                  onClick={handleStartRandomMatch}
                   disabled={queueSearching || onlinePhase === 'active'}
                 >
                   ランダム開始
@@ -825,12 +1514,27 @@ function App() {
             </div>
 
             <div>
-              <p className="label">フレンド対戦</p>
+              <label className="label" htmlFor="time-control-select">
+                フレンド対戦 (持ち時間)
+              </label>
               <div className="action-grid">
+                <select
+                  id="time-control-select"
+                  className="control-select"
+                  value={timeControlOptionId}
+                  onChange={handleTimeControlChange}
+                  disabled={Boolean(waitingInfo) || onlinePhase === 'active'}
+                >
+                  {TIME_CONTROL_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {formatTimeControl(option.timeControl)}
+                    </option>
+                  ))}
+                </select>
                 <button
                   type="button"
                   className="btn btn-primary"
-                  onClick={createKeyMatch}
+                  onClick={handleCreateKeyMatch}
                   disabled={Boolean(waitingInfo) || onlinePhase === 'active'}
                 >
                   新しいキーを発行
@@ -843,6 +1547,39 @@ function App() {
                 )}
               </div>
             </div>
+
+            <div>
+              <label className="label" htmlFor="online-bot-difficulty-select">
+                サーバー CPU と対戦
+              </label>
+              <div className="action-grid">
+                <select
+                  id="online-bot-difficulty-select"
+                  className="control-select"
+                  value={onlineBotDifficulty}
+                  onChange={handleOnlineBotDifficultyChange}
+                >
+                  {CPU_DIFFICULTY_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {CPU_DIFFICULTY_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={handleStartBotMatch}
+                  disabled={
+                    onlineConnectionState !== 'open' ||
+                    queueSearching ||
+                    Boolean(waitingInfo) ||
+                    onlinePhase === 'active'
+                  }
+                >
+                  CPU 対戦開始
+                </button>
+              </div>
+            </div>
           </div>
 
           <form className="key-form" onSubmit={handleJoinByKey}>
@@ -957,77 +1694,99 @@ function App() {
         </section>
       )}
 
-      <div className="play-area">
-        <section className="status-panel">
-          <div className="turn-card">
-            <p className="label">現在のターン</p>
-            <p className={`turn-chip ${effectiveCurrentDisk === 'B' ? 'black' : 'white'}`}>
-              <span>{turnChipText}</span>
-              {turnChipNote && <span className="turn-chip-note">{turnChipNote}</span>}
-            </p>
-            {isOnlineMode && turnCountdownLabel && (
-              <p className="turn-timer">タイムアウトまで {turnCountdownLabel}</p>
-            )}
-          </div>
-
-          <div className="scores">
-            <div className="score-line black">
-              <span>Black</span>
-              <strong>{effectiveScores.B}</strong>
-            </div>
-            <div className="score-line white">
-              <span>White</span>
-              <strong>{effectiveScores.W}</strong>
+      {replayGame ? (
+        <ReplayViewer
+          moves={replayGame.moves}
+          title={replayGame.title}
+          showStableDiscs={showStableDiscs}
+          onToggleStableDiscs={toggleStableDiscs}
+          onClose={closeReplay}
+        />
+      ) : (
+        <div className="play-area">
+          <section className="status-panel">
+            <div className="turn-card">
+              <p className="label">現在のターン</p>
+              <p className={`turn-chip ${effectiveCurrentDisk === 'B' ? 'black' : 'white'}`}>
+                <span>{turnChipText}</span>
+                {turnChipNote && <span className="turn-chip-note">{turnChipNote}</span>}
+              </p>
+              {isOnlineMode && remoteState?.bot && (
+                <p className="helper-text">
+                  {DISK_LABEL[remoteState.bot.disk]}: CPU ({CPU_DIFFICULTY_LABELS[remoteState.bot.difficulty]})
+                  {remoteState.bot.seed !== undefined && ` / 乱数シード ${remoteState.bot.seed}`}
+                </p>
+              )}
+              {openingName && <p className="helper-text">定石: {openingName}</p>}
+              {clockLabels && remoteState?.timeControl ? (
+                <div className="match-clocks">
+                  <p className="helper-text">持ち時間: {formatTimeControl(remoteState.timeControl)}</p>
+                  {(['B', 'W'] as Disk[]).map((disk) => (
+                    <p
+                      key={disk}
+                      className={`match-clock ${disk === 'B' ? 'black' : 'white'} ${
+                        clockLabels.running === disk ? 'running' : ''
+                      }`}
+                    >
+                      <span>{disk === 'B' ? 'Black' : 'White'}</span>
+                      <strong>{clockLabels.labels[disk]}</strong>
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                isOnlineMode &&
+                turnCountdownLabel && <p className="turn-timer">タイムアウトまで {turnCountdownLabel}</p>
+              )}
             </div>
-          </div>
 
-          <p className="status-note">{displayInsightNote}</p>
-        </section>
+            <div className="scores">
+              <div className="score-line black">
+                <span>
+                  Black
+                  {seatLabels.B && <span className="score-name">{seatLabels.B}</span>}
+                </span>
+                <strong>{effectiveScores.B}</strong>
+              </div>
+              <div className="score-line white">
+                <span>
+                  White
+                  {seatLabels.W && <span className="score-name">{seatLabels.W}</span>}
+                </span>
+                <strong>{effectiveScores.W}</strong>
+              </div>
+            </div>
 
-        <section className="board-wrapper">
-          <div className="board" role="grid" aria-label="Othello board">
-            {BOARD_INDICES.map((index) => {
-              const cell = effectiveBoard[index]
-              const isValid = displayedValidMoves.has(index)
-              const isLast = index === effectiveLastMove
-              const cellClasses = ['cell']
-
-              if (cell === 'B') cellClasses.push('black')
-              if (cell === 'W') cellClasses.push('white')
-              if (isValid && !cell && !effectiveGameOver) cellClasses.push('valid')
-              if (isLast) cellClasses.push('recent')
-
-              const row = Math.floor(index / 8) + 1
-              const column = (index % 8) + 1
-              const ariaLabelParts = [`Row ${row}, Column ${column}`]
-              if (cell) ariaLabelParts.push(`${DISK_LABEL[cell]} piece`)
-              else if (isValid && !effectiveGameOver) ariaLabelParts.push('valid move')
-
-              const disableCell =
-                effectiveGameOver ||
-                Boolean(cell) ||
-                !isValid ||
-                (isOnlineMode && (!remoteState || !canPlayOnline)) ||
-                (isLocalMode && effectiveCurrentDisk === cpuDisk)
-
-              return (
-                <button
-                  key={index}
-                  type="button"
-                  role="gridcell"
-                  aria-label={ariaLabelParts.join(' - ')}
-                  className={cellClasses.join(' ')}
-                  onClick={() => handleCellClick(index)}
-                  disabled={disableCell}
-                >
-                  {cell && <span className="disc" aria-hidden />}
-                  {!cell && isValid && !effectiveGameOver && <span className={`valid-dot ${effectiveCurrentDisk === 'B' ? 'black' : 'white'}`} />}
-                </button>
-              )
-            })}
-          </div>
-        </section>
-      </div>
+            <p className="status-note">{displayInsightNote}</p>
+            <button
+              type="button"
+              className={`btn btn-secondary stable-toggle ${showStableDiscs ? 'active' : ''}`}
+              onClick={toggleStableDiscs}
+              aria-pressed={showStableDiscs}
+            >
+              {showStableDiscs ? '確定石を隠す' : '確定石を表示'}
+            </button>
+            {replayableMoves && (
+              <button type="button" className="btn btn-secondary" onClick={openReplay}>
+                リプレイを見る
+              </button>
+            )}
+          </section>
+
+          <section className="board-wrapper">
+            <BoardGrid
+              board={effectiveBoard}
+              currentDisk={effectiveCurrentDisk}
+              lastMove={effectiveLastMove}
+              validMoves={displayedValidMoves}
+              gameOver={effectiveGameOver}
+              interactive={!boardLocked}
+              hints={isLocalMode ? boardHints : undefined}
+              showStableDiscs={showStableDiscs}
+              onCellClick={handleCellClick}
+            />
+          </section>
+        </div>
+      )}
 
     </main>
   )
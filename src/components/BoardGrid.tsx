@@ -0,0 +1,101 @@
+import { useMemo } from 'react'
+import {
+  computeStableDiscs,
+  DISK_LABEL,
+  type Cell,
+  type Disk,
+  type MoveMap,
+} from '../lib/othello'
+
+export interface CellHint {
+  label: string
+  best: boolean
+}
+
+const BOARD_INDICES = Array.from({ length: 64 }, (_, index) => index)
+const NO_MOVES: MoveMap = new Map()
+const NO_HINTS = new Map<number, CellHint>()
+
+interface BoardGridProps {
+  board: Cell[]
+  currentDisk: Disk
+  lastMove: number | null
+  validMoves?: MoveMap
+  gameOver?: boolean
+  /** Whether the viewer may place a disc right now (their turn, connected, ...). */
+  interactive?: boolean
+  /** Display-only board: no move hints and no clickable cells (replays, analysis). */
+  readOnly?: boolean
+  /** Per-square annotations drawn over legal moves (e.g. CPU hint scores). */
+  hints?: Map<number, CellHint>
+  /** Marks discs that can no longer be flipped (study overlay). */
+  showStableDiscs?: boolean
+  onCellClick?: (index: number) => void
+}
+
+function BoardGrid({
+  board,
+  currentDisk,
+  lastMove,
+  validMoves = NO_MOVES,
+  gameOver = false,
+  interactive = true,
+  readOnly = false,
+  hints = NO_HINTS,
+  showStableDiscs = false,
+  onCellClick,
+}: BoardGridProps) {
+  const showMoves = !readOnly && !gameOver
+  const stableDiscs = useMemo(
+    () => (showStableDiscs ? computeStableDiscs(board) : null),
+    [board, showStableDiscs],
+  )
+
+  return (
+    <div className="board" role="grid" aria-label="Othello board">
+      {BOARD_INDICES.map((index) => {
+        const cell = board[index]
+        const isValid = showMoves && validMoves.has(index)
+        const isLast = index === lastMove
+        const hint = isValid ? hints.get(index) : undefined
+        const isStable = stableDiscs?.has(index) ?? false
+        const cellClasses = ['cell']
+
+        if (cell === 'B') cellClasses.push('black')
+        if (cell === 'W') cellClasses.push('white')
+        if (isValid && !cell) cellClasses.push('valid')
+        if (isLast) cellClasses.push('recent')
+
+        const row = Math.floor(index / 8) + 1
+        const column = (index % 8) + 1
+        const ariaLabelParts = [`Row ${row}, Column ${column}`]
+        if (cell) ariaLabelParts.push(`${DISK_LABEL[cell]} piece${isStable ? ' (stable)' : ''}`)
+        else if (isValid) ariaLabelParts.push('valid move')
+        if (hint) ariaLabelParts.push(hint.best ? 'best move' : `hint ${hint.label}`)
+
+        const disableCell = readOnly || gameOver || Boolean(cell) || !isValid || !interactive
+
+        return (
+          <button
+            key={index}
+            type="button"
+            role="gridcell"
+            aria-label={ariaLabelParts.join(' - ')}
+            className={cellClasses.join(' ')}
+            onClick={() => onCellClick?.(index)}
+            disabled={disableCell}
+          >
+            {cell && <span className="disc" aria-hidden />}
+            {isStable && <span className="stable-mark" aria-hidden />}
+            {!cell && isValid && (
+              <span className={`valid-dot ${currentDisk === 'B' ? 'black' : 'white'}`} />
+            )}
+            {hint && <span className={`cell-hint ${hint.best ? 'best' : ''}`}>{hint.label}</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export default BoardGrid
@@ -0,0 +1,60 @@
+import type { PlyAnalysis } from '../lib/analysis'
+
+interface EvaluationGraphProps {
+  plies: PlyAnalysis[]
+  step: number
+  onSelect: (step: number) => void
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const MID = HEIGHT / 2
+
+/** Black's advantage over the game: above the midline favours Black, below favours White. */
+function EvaluationGraph({ plies, step, onSelect }: EvaluationGraphProps) {
+  const columnWidth = WIDTH / Math.max(plies.length, 1)
+  const pointX = (ply: number) => ply * columnWidth
+  const pointY = (balance: number) => MID - balance * (MID - 4)
+  const points = [`0,${MID}`, ...plies.map((ply) => `${pointX(ply.ply)},${pointY(ply.balance)}`)]
+
+  return (
+    <svg
+      className="evaluation-graph"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label="評価値グラフ"
+    >
+      <line className="evaluation-midline" x1={0} y1={MID} x2={WIDTH} y2={MID} />
+      <polygon
+        className="evaluation-area"
+        points={[...points, `${pointX(plies.length)},${MID}`].join(' ')}
+      />
+      <polyline className="evaluation-line" points={points.join(' ')} />
+      <line className="evaluation-cursor" x1={pointX(step)} y1={0} x2={pointX(step)} y2={HEIGHT} />
+      {plies
+        .filter((ply) => ply.verdict === 'inaccuracy' || ply.verdict === 'blunder')
+        .map((ply) => (
+          <circle
+            key={ply.ply}
+            className={`evaluation-marker ${ply.verdict}`}
+            cx={pointX(ply.ply)}
+            cy={pointY(ply.balance)}
+            r={3.5}
+          />
+        ))}
+      {plies.map((ply) => (
+        <rect
+          key={ply.ply}
+          className="evaluation-hit"
+          x={pointX(ply.ply) - columnWidth / 2}
+          y={0}
+          width={columnWidth}
+          height={HEIGHT}
+          onClick={() => onSelect(ply.ply)}
+        />
+      ))}
+    </svg>
+  )
+}
+
+export default EvaluationGraph
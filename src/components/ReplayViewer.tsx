@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import BoardGrid from './BoardGrid'
+import EvaluationGraph from './EvaluationGraph'
+import useCpuWorker from '../hooks/useCpuWorker'
+import { ANALYSIS_DEFAULTS, type GameAnalysis, type MoveVerdict } from '../lib/analysis'
+import { identifyOpening } from '../lib/openingBook'
+import {
+  advancePosition,
+  countDisks,
+  createInitialPosition,
+  DISK_LABEL,
+  indexToCoordinate,
+  type GamePosition,
+  type MoveRecord,
+} from '../lib/othello'
+
+interface ReplayViewerProps {
+  moves: MoveRecord[]
+  title: string
+  showStableDiscs: boolean
+  onToggleStableDiscs: () => void
+  onClose: () => void
+}
+
+// Positions before the first ply and after each one; stops early if the record turns illegal.
+const buildPositions = (moves: MoveRecord[]) => {
+  const positions: GamePosition[] = [createInitialPosition()]
+  for (const record of moves) {
+    const next = advancePosition(positions[positions.length - 1], record)
+    if (!next) break
+    positions.push(next)
+  }
+  return positions
+}
+
+const describeRecord = (record: MoveRecord) =>
+  record.index === null ? 'パス' : indexToCoordinate(record.index)
+
+const VERDICT_LABEL: Record<MoveVerdict, string> = {
+  good: '好手',
+  inaccuracy: '疑問手',
+  blunder: '悪手',
+}
+
+const formatScore = (score: number, exact: boolean) => {
+  const rounded = Math.round(score)
+  const signed = rounded > 0 ? `+${rounded}` : `${rounded}`
+  return exact ? `${signed} 石` : signed
+}
+
+function ReplayViewer({
+  moves,
+  title,
+  showStableDiscs,
+  onToggleStableDiscs,
+  onClose,
+}: ReplayViewerProps) {
+  const positions = useMemo(() => buildPositions(moves), [moves])
+  const lastStep = positions.length - 1
+  const [step, setStep] = useState(lastStep)
+  const position = positions[Math.min(step, lastStep)]
+  const scores = useMemo(() => countDisks(position.board), [position])
+  const openingName = useMemo(() => identifyOpening(moves.slice(0, step)), [moves, step])
+  const { requestAnalysis } = useCpuWorker()
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null)
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null)
+  const [analysisError, setAnalysisError] = useState<string | null>(null)
+  const analysisControllerRef = useRef<AbortController | null>(null)
+
+  const startAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort()
+    const controller = new AbortController()
+    analysisControllerRef.current = controller
+    setAnalysisError(null)
+    setAnalysisProgress(0)
+    requestAnalysis(moves.slice(0, lastStep), ANALYSIS_DEFAULTS, {
+      signal: controller.signal,
+      onProgress: (completed, total) => setAnalysisProgress(completed / total),
+    })
+      .then((result) => setAnalysis(result))
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return
+        setAnalysisError(error instanceof Error ? error.message : 'Analysis failed.')
+      })
+      .finally(() => {
+        if (analysisControllerRef.current === controller) {
+          analysisControllerRef.current = null
+          setAnalysisProgress(null)
+        }
+      })
+  }, [lastStep, moves, requestAnalysis])
+
+  const stopAnalysis = useCallback(() => analysisControllerRef.current?.abort(), [])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      switch (event.key) {
+        case 'ArrowLeft':
+          setStep((prev) => Math.max(0, prev - 1))
+          break
+        case 'ArrowRight':
+          setStep((prev) => Math.min(lastStep, prev + 1))
+          break
+        case 'Home':
+          setStep(0)
+          break
+        case 'End':
+          setStep(lastStep)
+          break
+        case 'Escape':
+          onClose()
+          return
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [lastStep, onClose])
+
+  const currentRecord = step > 0 ? moves[step - 1] : null
+  const currentAnalysis = analysis && step > 0 ? analysis.plies[step - 1] : null
+  const verdictByPly = analysis?.plies.map((ply) => ply.verdict) ?? []
+
+  return (
+    <div className="play-area">
+      <section className="status-panel replay-panel" aria-label="リプレイ">
+        <div className="turn-card">
+          <p className="label">リプレイ — {title}</p>
+          <p className="replay-step">
+            {step} / {lastStep} 手目
+            {currentRecord &&
+              ` (${DISK_LABEL[currentRecord.disk]} ${describeRecord(currentRecord)})`}
+          </p>
+          {openingName && <p className="helper-text">定石: {openingName}</p>}
+        </div>
+
+        <div className="scores">
+          <div className="score-line black">
+            <span>Black</span>
+            <strong>{scores.B}</strong>
+          </div>
+          <div className="score-line white">
+            <span>White</span>
+            <strong>{scores.W}</strong>
+          </div>
+        </div>
+
+        <div className="action-grid replay-controls">
+          <button type="button" className="btn btn-secondary" onClick={() => setStep(0)} disabled={step === 0}>
+            ⏮ 最初
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => setStep((prev) => Math.max(0, prev - 1))}
+            disabled={step === 0}
+          >
+            ◀ 前
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => setStep((prev) => Math.min(lastStep, prev + 1))}
+            disabled={step === lastStep}
+          >
+            次 ▶
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => setStep(lastStep)}
+            disabled={step === lastStep}
+          >
+            最後 ⏭
+          </button>
+        </div>
+        <p className="helper-text">← → キーで1手ずつ、Home / End で最初と最後へ移動できます。</p>
+        <button
+          type="button"
+          className={`btn btn-secondary stable-toggle ${showStableDiscs ? 'active' : ''}`}
+          onClick={onToggleStableDiscs}
+          aria-pressed={showStableDiscs}
+        >
+          {showStableDiscs ? '確定石を隠す' : '確定石を表示'}
+        </button>
+
+        <div className="analysis-panel">
+          <div className="action-grid">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={startAnalysis}
+              disabled={analysisProgress !== null}
+            >
+              {analysis ? '再解析' : '解析する'}
+            </button>
+            {analysisProgress !== null && (
+              <button type="button" className="btn btn-secondary" onClick={stopAnalysis}>
+                中止
+              </button>
+            )}
+          </div>
+          {analysisProgress !== null && (
+            <p className="helper-text">解析中… {Math.round(analysisProgress * 100)}%</p>
+          )}
+          {analysisError && <p className="error-text">{analysisError}</p>}
+          {analysis && (
+            <>
+              <EvaluationGraph plies={analysis.plies} step={step} onSelect={setStep} />
+              {currentAnalysis?.verdict && (
+                <p className={`analysis-note ${currentAnalysis.verdict}`}>
+                  {VERDICT_LABEL[currentAnalysis.verdict]}
+                  {currentAnalysis.playedScore !== null &&
+                    ` (${formatScore(currentAnalysis.playedScore, currentAnalysis.exact)})`}
+                  {currentAnalysis.bestMove !== null &&
+                    currentAnalysis.bestMove !== currentAnalysis.move &&
+                    ` — 最善は ${indexToCoordinate(currentAnalysis.bestMove)} (${formatScore(
+                      currentAnalysis.candidates[0].score,
+                      currentAnalysis.exact,
+                    )})`}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <ol className="replay-move-list">
+          {moves.slice(0, lastStep).map((record, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                className={`replay-move ${record.disk === 'B' ? 'black' : 'white'} ${
+                  step === index + 1 ? 'active' : ''
+                } ${verdictByPly[index] ?? ''}`}
+                onClick={() => setStep(index + 1)}
+                aria-current={step === index + 1 ? 'step' : undefined}
+              >
+                {describeRecord(record)}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <button type="button" className="btn btn-primary" onClick={onClose}>
+          リプレイを閉じる
+        </button>
+      </section>
+
+      <section className="board-wrapper">
+        <BoardGrid
+          board={position.board}
+          currentDisk={position.currentDisk}
+          lastMove={currentRecord?.index ?? null}
+          readOnly
+          showStableDiscs={showStableDiscs}
+        />
+      </section>
+    </div>
+  )
+}
+
+export default ReplayViewer
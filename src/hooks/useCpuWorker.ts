@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { analyzeGame, type GameAnalysis } from '../lib/analysis'
+import {
+  chooseCpuMove,
+  scoreCpuMoves,
+  type CpuMoveResult,
+  type CpuMoveScore,
+} from '../lib/cpuPlayer'
+import type { Cell, Disk, MoveRecord } from '../lib/othello'
+import type {
+  CpuWorkerAnalysisOptions,
+  CpuWorkerRequest,
+  CpuWorkerResponse,
+  CpuWorkerSearchOptions,
+} from '../workers/cpuProtocol'
+
+interface CpuSearchControls {
+  signal?: AbortSignal
+  onProgress?: (progress: CpuMoveResult) => void
+}
+
+interface AnalysisControls {
+  signal?: AbortSignal
+  onProgress?: (completed: number, total: number) => void
+}
+
+interface PendingRequest {
+  id: number
+  reject: (reason: unknown) => void
+  /** Handles a progress or result message; returns true once the request has resolved. */
+  settle: (message: CpuWorkerResponse) => boolean
+}
+
+export interface UseCpuWorkerResult {
+  requestCpuMove: (
+    board: Cell[],
+    disk: Disk,
+    options: CpuWorkerSearchOptions,
+    controls?: CpuSearchControls,
+  ) => Promise<CpuMoveResult>
+  requestMoveScores: (
+    board: Cell[],
+    disk: Disk,
+    options: CpuWorkerSearchOptions,
+    controls?: { signal?: AbortSignal },
+  ) => Promise<CpuMoveScore[]>
+  requestAnalysis: (
+    moves: MoveRecord[],
+    options: CpuWorkerAnalysisOptions,
+    controls?: AnalysisControls,
+  ) => Promise<GameAnalysis>
+  cancelCpuSearch: () => void
+}
+
+const createCancelError = () => new DOMException('CPU search cancelled.', 'AbortError')
+
+/**
+ * Runs `chooseCpuMove` (or `scoreCpuMoves` / `analyzeGame`) in a dedicated worker,
+ * one request at a time. A new request or an abort terminates the busy worker;
+ * the next request spawns a fresh one. Falls back to the main thread where
+ * workers are unavailable.
+ */
+const useCpuWorker = (): UseCpuWorkerResult => {
+  const workerRef = useRef<Worker | null>(null)
+  const pendingRef = useRef<PendingRequest | null>(null)
+  const nextIdRef = useRef(0)
+
+  const terminateWorker = useCallback(() => {
+    if (!workerRef.current) return
+    workerRef.current.terminate()
+    workerRef.current = null
+  }, [])
+
+  const cancelCpuSearch = useCallback(() => {
+    const pending = pendingRef.current
+    if (!pending) return
+    pendingRef.current = null
+    terminateWorker()
+    pending.reject(createCancelError())
+  }, [terminateWorker])
+
+  const handleWorkerMessage = useCallback((event: MessageEvent<CpuWorkerResponse>) => {
+    const pending = pendingRef.current
+    const message = event.data
+    if (!pending || message.id !== pending.id) return
+    if (message.type === 'error') {
+      pendingRef.current = null
+      pending.reject(new Error(message.message))
+      return
+    }
+    if (pending.settle(message)) pendingRef.current = null
+  }, [])
+
+  const ensureWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/cpuWorker.ts', import.meta.url), {
+        type: 'module',
+      })
+      worker.onmessage = handleWorkerMessage
+      worker.onerror = (event) => {
+        const pending = pendingRef.current
+        pendingRef.current = null
+        terminateWorker()
+        pending?.reject(new Error(event.message || 'CPU worker crashed.'))
+      }
+      workerRef.current = worker
+    }
+    return workerRef.current
+  }, [handleWorkerMessage, terminateWorker])
+
+  const startRequest = useCallback(
+    <T>(
+      signal: AbortSignal | undefined,
+      buildRequest: (id: number) => CpuWorkerRequest,
+      settle: (message: CpuWorkerResponse, resolve: (value: T) => void) => boolean,
+    ) => {
+      cancelCpuSearch()
+      if (signal?.aborted) return Promise.reject(createCancelError())
+
+      return new Promise<T>((resolve, reject) => {
+        nextIdRef.current += 1
+        const id = nextIdRef.current
+        pendingRef.current = { id, reject, settle: (message) => settle(message, resolve) }
+
+        signal?.addEventListener(
+          'abort',
+          () => {
+            if (pendingRef.current?.id === id) cancelCpuSearch()
+          },
+          { once: true },
+        )
+
+        ensureWorker().postMessage(buildRequest(id))
+      })
+    },
+    [cancelCpuSearch, ensureWorker],
+  )
+
+  const requestCpuMove = useCallback<UseCpuWorkerResult['requestCpuMove']>(
+    (board, disk, options, controls = {}) => {
+      const { signal, onProgress } = controls
+
+      if (typeof Worker === 'undefined') {
+        if (signal?.aborted) return Promise.reject(createCancelError())
+        try {
+          return Promise.resolve(chooseCpuMove(board, disk, { ...options, onProgress }))
+        } catch (error) {
+          return Promise.reject(error)
+        }
+      }
+
+      return startRequest<CpuMoveResult>(
+        signal,
+        (id) => ({ type: 'search', id, board, disk, options }),
+        (message, resolve) => {
+          if (message.type === 'progress') onProgress?.(message.progress)
+          if (message.type !== 'result') return false
+          resolve(message.result)
+          return true
+        },
+      )
+    },
+    [startRequest],
+  )
+
+  const requestMoveScores = useCallback<UseCpuWorkerResult['requestMoveScores']>(
+    (board, disk, options, controls = {}) => {
+      const { signal } = controls
+
+      if (typeof Worker === 'undefined') {
+        if (signal?.aborted) return Promise.reject(createCancelError())
+        try {
+          return Promise.resolve(scoreCpuMoves(board, disk, options))
+        } catch (error) {
+          return Promise.reject(error)
+        }
+      }
+
+      return startRequest<CpuMoveScore[]>(
+        signal,
+        (id) => ({ type: 'score', id, board, disk, options }),
+        (message, resolve) => {
+          if (message.type !== 'scores') return false
+          resolve(message.scores)
+          return true
+        },
+      )
+    },
+    [startRequest],
+  )
+
+  const requestAnalysis = useCallback<UseCpuWorkerResult['requestAnalysis']>(
+    (moves, options, controls = {}) => {
+      const { signal, onProgress } = controls
+
+      if (typeof Worker === 'undefined') {
+        if (signal?.aborted) return Promise.reject(createCancelError())
+        try {
+          return Promise.resolve(analyzeGame(moves, { ...options, onProgress }))
+        } catch (error) {
+          return Promise.reject(error)
+        }
+      }
+
+      return startRequest<GameAnalysis>(
+        signal,
+        (id) => ({ type: 'analyze', id, moves, options }),
+        (message, resolve) => {
+          if (message.type === 'analysis-progress') onProgress?.(message.completed, message.total)
+          if (message.type !== 'analysis') return false
+          resolve(message.analysis)
+          return true
+        },
+      )
+    },
+    [startRequest],
+  )
+
+  useEffect(() => {
+    return () => {
+      cancelCpuSearch()
+      terminateWorker()
+    }
+  }, [cancelCpuSearch, terminateWorker])
+
+  return { requestCpuMove, requestMoveScores, requestAnalysis, cancelCpuSearch }
+}
+
+export default useCpuWorker
@@ -1,39 +1,35 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { createInitialBoard, countDisks, type Disk } from '../lib/othello'
+import { createAccountTokenStore } from '../lib/accountToken'
+import type { CpuDifficulty } from '../lib/cpuPlayer'
 import {
-  createInitialBoard,
-  countDisks,
-  type Cell,
-  type Disk,
-} from '../lib/othello'
-
-type Winner = Disk | 'draw' | null
+  encodeMessage,
+  normalizeNickname,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  unhandledMessage,
+  type ClientMessage,
+  type ClientMessageType,
+  type ClientPayloads,
+  type AccountPayload,
+  type MatchStatePayload,
+  type TimeControl,
+} from '../lib/protocol'
 
 type ConnectionState = 'disconnected' | 'connecting' | 'open' | 'error'
 
 type OnlinePhase = 'idle' | 'queue' | 'waiting' | 'active' | 'spectating'
 
-interface ServerMessage {
-  type: string
-  payload?: Record<string, unknown>
-}
-
-export interface RemoteState {
-  matchKey: string
-  board: Cell[]
-  currentDisk: Disk
-  lastMove: number | null
-  scores: Record<Disk, number>
-  spectators: number
-  statusMessage: string
-  winner: Winner
-  turnDeadline: number | null
-}
+export type RemoteState = MatchStatePayload
 
 interface UseOnlineMatchOptions {
   enabled: boolean
   serverUrl?: string
 }
 
+/** The signed-in account; `token` doubles as the transfer code for other devices. */
+export type OnlineAccount = AccountPayload & { clientId: string }
+
 interface WaitingInfo {
   matchKey: string
   yourDisk: Disk
@@ -49,9 +45,15 @@ export interface UseOnlineMatchResult {
   role: 'player' | 'spectator' | null
   yourDisk: Disk | null
   lastError: string | null
-  startRandomMatch: () => void
+  /** How the last ranked game moved each seat's rating, until the next match starts. */
+  ratingChanges: Record<Disk, number> | null
+  account: OnlineAccount | null
+  updateNickname: (nickname: string) => void
+  adoptAccountToken: (token: string) => void
+  startRandomMatch: (ranked: boolean) => void
   cancelRandomMatch: () => void
-  createKeyMatch: () => void
+  createKeyMatch: (ranked: boolean, timeControl: TimeControl | null) => void
+  startBotMatch: (difficulty: CpuDifficulty, disk?: Disk) => void
   joinByKey: (key: string) => void
   spectateByKey: (key: string) => void
   acceptSpectatePrompt: () => void
@@ -64,12 +66,6 @@ export interface UseOnlineMatchResult {
 
 export const DEFAULT_MATCH_SERVER_URL =
   import.meta.env.VITE_MATCH_SERVER_URL ?? 'ws://localhost:8787'
-const CLIENT_ID_STORAGE_KEY = 'othello:match-client-id'
-
-const readStoredClientId = () => {
-  if (typeof window === 'undefined') return null
-  return window.localStorage.getItem(CLIENT_ID_STORAGE_KEY)
-}
 
 const normalizeKey = (input: string) =>
   input
@@ -77,18 +73,25 @@ const normalizeKey = (input: string) =>
     .toUpperCase()
     .replace(/[^A-Z0-9]/g, '')
 
-const buildWaitingState = (matchKey: string, message: string): RemoteState => {
+const buildWaitingState = (matchKey: string, ranked: boolean, message: string): RemoteState => {
   const board = createInitialBoard()
   return {
     matchKey,
     board,
     currentDisk: 'B',
     lastMove: null,
+    moves: [],
     scores: countDisks(board),
     spectators: 0,
     statusMessage: message,
     winner: null,
     turnDeadline: null,
+    timeControl: null,
+    clocks: null,
+    names: { B: null, W: null },
+    ranked,
+    ratings: { B: null, W: null },
+    bot: null,
   }
 }
 
@@ -101,7 +104,13 @@ const useOnlineMatch = ({
   const shouldReconnectRef = useRef(false)
 
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected')
-  const [clientId, setClientId] = useState<string | null>(() => readStoredClientId())
+  // Never replaced, so a new token does not tear down the socket that just received it.
+  const [tokenStore] = useState(() =>
+    createAccountTokenStore(typeof window === 'undefined' ? null : window.localStorage),
+  )
+  // Why the last hello's token was refused, shown once the retry has signed in.
+  const tokenNoticeRef = useRef<string | null>(null)
+  const [account, setAccount] = useState<OnlineAccount | null>(null)
   const [matchState, setMatchState] = useState<RemoteState | null>(null)
   const [role, setRole] = useState<'player' | 'spectator' | null>(null)
   const [yourDisk, setYourDisk] = useState<Disk | null>(null)
@@ -109,13 +118,7 @@ const useOnlineMatch = ({
   const [waitingInfo, setWaitingInfo] = useState<WaitingInfo | null>(null)
   const [promptSpectateKey, setPromptSpectateKey] = useState<string | null>(null)
   const [lastError, setLastError] = useState<string | null>(null)
-  const persistClientId = useCallback((value: string) => {
-    setClientId(value)
-    if (typeof window !== 'undefined') {
-      window.localStorage.setItem(CLIENT_ID_STORAGE_KEY, value)
-    }
-  }, [])
-
+  const [ratingChanges, setRatingChanges] = useState<Record<Disk, number> | null>(null)
   const resetSession = useCallback(() => {
     setMatchState(null)
     setRole(null)
@@ -123,6 +126,7 @@ const useOnlineMatch = ({
     setQueueSearching(false)
     setWaitingInfo(null)
     setPromptSpectateKey(null)
+    setRatingChanges(null)
   }, [])
 
   const cleanupSocket = useCallback(() => {
@@ -145,72 +149,94 @@ const useOnlineMatch = ({
   }, [])
 
   const handleServerMessage = useCallback((event: MessageEvent) => {
-    try {
-      const incoming = JSON.parse(event.data as string) as ServerMessage
-      const payload = incoming.payload ?? {}
-      switch (incoming.type) {
-        case 'hello':
-          if (typeof payload.clientId === 'string') {
-            persistClientId(payload.clientId)
-          }
-          setConnectionState('open')
-          setLastError(null)
-          break
-        case 'queue:status':
-          setQueueSearching(Boolean(payload.searching))
-          break
-        case 'match:waiting':
-          if (typeof payload.matchKey === 'string' && typeof payload.yourDisk === 'string') {
-            const disk = payload.yourDisk as Disk
-            setWaitingInfo({ matchKey: payload.matchKey, yourDisk: disk })
-            setRole('player')
-            setYourDisk(disk)
-            setMatchState(buildWaitingState(payload.matchKey, '相手の接続を待機中…'))
-          }
-          break
-        case 'match:start':
-          if (payload.state) {
-            setMatchState(payload.state as RemoteState)
-          }
-          setRole(payload.youAre === 'spectator' ? 'spectator' : 'player')
-          setYourDisk(typeof payload.yourDisk === 'string' ? (payload.yourDisk as Disk) : null)
-          setWaitingInfo(null)
-          setQueueSearching(false)
-          setPromptSpectateKey(null)
-          break
-        case 'match:update':
-          if (payload.state) {
-            setMatchState(payload.state as RemoteState)
-          }
-          break
-        case 'match:end':
-          if (payload.state) {
-            setMatchState(payload.state as RemoteState)
-          }
-          setRole(null)
-          setYourDisk(null)
-          setWaitingInfo(null)
-          setQueueSearching(false)
-          setPromptSpectateKey(null)
-          break
-        case 'prompt:spectate':
-          if (typeof payload.matchKey === 'string') {
-            setPromptSpectateKey(payload.matchKey)
-          }
+    const parsed = parseServerMessage(String(event.data))
+    if (!parsed.ok) {
+      console.warn('Failed to parse server message', parsed.error)
+      setLastError('サーバー応答の解析に失敗しました。')
+      return
+    }
+    const { message } = parsed
+    switch (message.type) {
+      case 'hello': {
+        const { clientId, nickname, token, rating, ratedGames } = message.payload
+        tokenStore.confirm(token)
+        setAccount({ clientId, nickname, token, rating, ratedGames })
+        setConnectionState('open')
+        setLastError(tokenNoticeRef.current)
+        tokenNoticeRef.current = null
+        break
+      }
+      case 'profile': {
+        tokenStore.save(message.payload.token)
+        setAccount((current) => (current ? { ...current, ...message.payload } : current))
+        break
+      }
+      case 'queue:status':
+        setQueueSearching(message.payload.searching)
+        break
+      case 'match:waiting': {
+        const { matchKey, yourDisk: disk, ranked } = message.payload
+        setWaitingInfo({ matchKey, yourDisk: disk })
+        setRole('player')
+        setYourDisk(disk)
+        setRatingChanges(null)
+        setMatchState(buildWaitingState(matchKey, ranked, '相手の接続を待機中…'))
+        break
+      }
+      case 'match:start':
+        setMatchState(message.payload.state)
+        setRole(message.payload.youAre)
+        setYourDisk(message.payload.yourDisk ?? null)
+        setWaitingInfo(null)
+        setQueueSearching(false)
+        setPromptSpectateKey(null)
+        setRatingChanges(null)
+        break
+      case 'match:update':
+        setMatchState(message.payload.state)
+        break
+      case 'match:end':
+        setMatchState(message.payload.state)
+        setRatingChanges(message.payload.ratingChanges ?? null)
+        setRole(null)
+        setYourDisk(null)
+        setWaitingInfo(null)
+        setQueueSearching(false)
+        setPromptSpectateKey(null)
+        break
+      case 'prompt:spectate':
+        setPromptSpectateKey(message.payload.matchKey)
+        break
+      case 'error':
+        if (message.payload.code === 'protocol-mismatch') {
+          // Retrying can't help until the page loads a client that matches the server.
+          shouldReconnectRef.current = false
+          setConnectionState('error')
+          setLastError(
+            `サーバーとプロトコルのバージョンが一致しません (サーバー v${message.payload.protocolVersion ?? '?'} / このページ v${PROTOCOL_VERSION})。ページを再読み込みしてください。`,
+          )
           break
-        case 'error':
-          if (typeof payload.message === 'string') {
-            setLastError(payload.message)
-          }
+        }
+        if (message.payload.code === 'token-rejected') {
+          // The server closes the socket next; the reconnect carries whichever token is left.
+          tokenNoticeRef.current =
+            tokenStore.reject() === 'adopted'
+              ? '引き継ぎコードが認識されなかったため、この端末のアカウントのまま接続しました。'
+              : '保存されていたアカウントが認識されなかったため、新しいアカウントで接続しました。'
           break
-        default:
+        }
+        if (message.payload.code === 'session-replaced') {
+          // Reconnecting would just take the account back from the other device, and so on forever.
+          shouldReconnectRef.current = false
+          setLastError('別の端末またはタブで同じアカウントが接続したため、切断しました。')
           break
-      }
-    } catch (error) {
-      console.warn('Failed to parse server message', error)
-      setLastError('サーバー応答の解析に失敗しました。')
+        }
+        setLastError(message.payload.message)
+        break
+      default:
+        unhandledMessage(message)
     }
-  }, [persistClientId])
+  }, [tokenStore])
 
   const connectSocket = useCallback(() => {
     if (!enabled) return
@@ -224,23 +250,16 @@ const useOnlineMatch = ({
     setLastError(null)
 
     try {
-      let targetUrl = serverUrl
-      if (clientId) {
-        try {
-          const url = new URL(serverUrl)
-          url.searchParams.set('clientId', clientId)
-          targetUrl = url.toString()
-        } catch {
-          const separator = serverUrl.includes('?') ? '&' : '?'
-          targetUrl = `${serverUrl}${separator}clientId=${encodeURIComponent(clientId)}`
-        }
-      }
-
-      const ws = new WebSocket(targetUrl)
+      const ws = new WebSocket(serverUrl)
       socketRef.current = ws
 
       ws.onopen = () => {
-        setConnectionState('open')
+        // The server answers with its own hello (and the resumed session) once the versions match.
+        const hello: ClientMessage = {
+          type: 'hello',
+          payload: { protocolVersion: PROTOCOL_VERSION, token: tokenStore.current() ?? undefined },
+        }
+        ws.send(encodeMessage(hello))
       }
 
       ws.onmessage = handleServerMessage
@@ -265,7 +284,7 @@ const useOnlineMatch = ({
       setConnectionState('error')
       setLastError('サーバーに接続できませんでした。')
     }
-  }, [clientId, enabled, handleServerMessage, resetSession, serverUrl])
+  }, [enabled, handleServerMessage, resetSession, serverUrl, tokenStore])
 
   useEffect(() => {
     shouldReconnectRef.current = enabled
@@ -283,28 +302,41 @@ const useOnlineMatch = ({
   }, [cleanupSocket, connectSocket, enabled, resetSession])
 
   const sendMessage = useCallback(
-    (type: string, payload: Record<string, unknown> = {}) => {
+    <T extends ClientMessageType>(type: T, payload: ClientPayloads[T]) => {
       const socket = socketRef.current
       if (!socket || socket.readyState !== WebSocket.OPEN) {
         setLastError('サーバーに接続できていません。')
         return
       }
-      socket.send(JSON.stringify({ type, payload }))
+      socket.send(encodeMessage({ type, payload } as ClientMessage))
     },
     [],
   )
 
-  const startRandomMatch = useCallback(() => {
-    sendMessage('random:join')
-  }, [sendMessage])
+  const startRandomMatch = useCallback(
+    (ranked: boolean) => {
+      sendMessage('random:join', { ranked })
+    },
+    [sendMessage],
+  )
 
   const cancelRandomMatch = useCallback(() => {
-    sendMessage('random:cancel')
+    sendMessage('random:cancel', {})
   }, [sendMessage])
 
-  const createKeyMatch = useCallback(() => {
-    sendMessage('key:create')
-  }, [sendMessage])
+  const createKeyMatch = useCallback(
+    (ranked: boolean, timeControl: TimeControl | null) => {
+      sendMessage('key:create', timeControl ? { ranked, timeControl } : { ranked })
+    },
+    [sendMessage],
+  )
+
+  const startBotMatch = useCallback(
+    (difficulty: CpuDifficulty, disk?: Disk) => {
+      sendMessage('bot:create', disk ? { difficulty, disk } : { difficulty })
+    },
+    [sendMessage],
+  )
 
   const joinByKey = useCallback(
     (rawKey: string) => {
@@ -348,14 +380,41 @@ const useOnlineMatch = ({
   )
 
   const leaveSession = useCallback(() => {
-    sendMessage('leave')
+    sendMessage('leave', {})
     resetSession()
   }, [resetSession, sendMessage])
 
   const reconnect = useCallback(() => {
+    shouldReconnectRef.current = enabled
     cleanupSocket()
     connectSocket()
-  }, [cleanupSocket, connectSocket])
+  }, [cleanupSocket, connectSocket, enabled])
+
+  const updateNickname = useCallback(
+    (raw: string) => {
+      const nickname = normalizeNickname(raw)
+      if (!nickname) {
+        setLastError('ニックネームを入力してください。')
+        return
+      }
+      sendMessage('profile:update', { nickname })
+    },
+    [sendMessage],
+  )
+
+  // Signs in as the account a transfer code from another device belongs to.
+  const adoptAccountToken = useCallback(
+    (raw: string) => {
+      const token = raw.trim()
+      if (!token) {
+        setLastError('引き継ぎコードを入力してください。')
+        return
+      }
+      tokenStore.adopt(token)
+      reconnect()
+    },
+    [reconnect, tokenStore],
+  )
 
   const phase = useMemo<OnlinePhase>(() => {
     if (!enabled) return 'idle'
@@ -378,9 +437,14 @@ const useOnlineMatch = ({
     role,
     yourDisk,
     lastError,
+    ratingChanges,
+    account,
+    updateNickname,
+    adoptAccountToken,
     startRandomMatch,
     cancelRandomMatch,
     createKeyMatch,
+    startBotMatch,
     joinByKey,
     spectateByKey,
     acceptSpectatePrompt,
@@ -0,0 +1,58 @@
+const ACCOUNT_TOKEN_STORAGE_KEY = 'othello:match-account-token'
+// Anonymous ids from before accounts; the server no longer accepts them.
+const LEGACY_CLIENT_ID_STORAGE_KEY = 'othello:match-client-id'
+
+/** The slice of `localStorage` the token store needs. */
+export interface TokenStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+  removeItem: (key: string) => void
+}
+
+/** Whose token the server refused: a transfer code being tried, or the one saved on this device. */
+export type RejectedToken = 'adopted' | 'saved'
+
+/**
+ * Keeps the account token sent with each hello. A transfer code is tried
+ * alongside the saved token and replaces it only once the server signs in
+ * with it, so a mistyped code never costs this device its account.
+ */
+export const createAccountTokenStore = (storage: TokenStorage | null) => {
+  let saved = storage?.getItem(ACCOUNT_TOKEN_STORAGE_KEY) ?? null
+  let adopted: string | null = null
+
+  const save = (token: string) => {
+    saved = token
+    storage?.setItem(ACCOUNT_TOKEN_STORAGE_KEY, token)
+    storage?.removeItem(LEGACY_CLIENT_ID_STORAGE_KEY)
+  }
+
+  return {
+    /** The token the next hello carries. */
+    current: () => adopted ?? saved,
+    /** Tries `token` on the next connection without forgetting the saved one. */
+    adopt: (token: string) => {
+      adopted = token
+    },
+    /** Saves the token a hello signed in with, settling any transfer code that was being tried. */
+    confirm: (token: string) => {
+      adopted = null
+      save(token)
+    },
+    save,
+    /**
+     * Drops the token the server just refused. A refused transfer code falls
+     * back to the saved token; a refused saved token is gone for good, so the
+     * next hello opens a new account.
+     */
+    reject: (): RejectedToken => {
+      if (adopted !== null) {
+        adopted = null
+        return 'adopted'
+      }
+      saved = null
+      storage?.removeItem(ACCOUNT_TOKEN_STORAGE_KEY)
+      return 'saved'
+    },
+  }
+}
@@ -0,0 +1,123 @@
+import { scoreCpuMoves, type CpuDifficulty, type CpuMoveScore } from './cpuPlayer.js'
+import { advancePosition, createInitialPosition, type Disk, type MoveRecord } from './othello.js'
+
+export type MoveVerdict = 'good' | 'inaccuracy' | 'blunder'
+
+export interface PlyAnalysis {
+  /** 1-based ply number, matching the replay step after this move. */
+  ply: number
+  disk: Disk
+  move: number | null
+  /** Every legal move with its score for `disk`, best first. Empty for passes. */
+  candidates: CpuMoveScore[]
+  bestMove: number | null
+  playedScore: number | null
+  /** How much worse the played move scored than the best one (0 for the best move). */
+  loss: number
+  exact: boolean
+  verdict: MoveVerdict | null
+  /** Position after this ply from Black's point of view, squashed into [-1, 1] for graphing. */
+  balance: number
+}
+
+export interface GameAnalysis {
+  plies: PlyAnalysis[]
+}
+
+export interface GameAnalysisOptions {
+  difficulty?: CpuDifficulty
+  maxDepth?: number
+  endgameEmpties?: number
+  /** Called after each analysed ply. */
+  onProgress?: (completed: number, total: number) => void
+}
+
+export const ANALYSIS_DEFAULTS = {
+  difficulty: 'hard',
+  maxDepth: 4,
+  endgameEmpties: 10,
+} satisfies Omit<GameAnalysisOptions, 'onProgress'>
+
+// Heuristic scores and exact disc differences live on different scales, so each gets its own cut-offs.
+const VERDICT_THRESHOLDS = {
+  heuristic: { inaccuracy: 30, blunder: 100 },
+  exact: { inaccuracy: 4, blunder: 10 },
+}
+const HEURISTIC_BALANCE_SCALE = 400
+
+const classifyLoss = (loss: number, exact: boolean): MoveVerdict => {
+  const thresholds = exact ? VERDICT_THRESHOLDS.exact : VERDICT_THRESHOLDS.heuristic
+  if (loss >= thresholds.blunder) return 'blunder'
+  if (loss >= thresholds.inaccuracy) return 'inaccuracy'
+  return 'good'
+}
+
+const toBalance = (score: number, exact: boolean, disk: Disk) => {
+  const scaled = exact ? score / 64 : Math.tanh(score / HEURISTIC_BALANCE_SCALE)
+  const clamped = Math.max(-1, Math.min(1, scaled))
+  return disk === 'B' ? clamped : -clamped
+}
+
+/**
+ * Replays `moves` and scores every legal move at each ply with the CPU search,
+ * tagging the played move by its loss against the best one. Passes keep the
+ * previous balance and carry no verdict.
+ */
+export const analyzeGame = (
+  moves: MoveRecord[],
+  options: GameAnalysisOptions = {},
+): GameAnalysis => {
+  const searchOptions = {
+    difficulty: options.difficulty ?? ANALYSIS_DEFAULTS.difficulty,
+    maxDepthOverride: options.maxDepth ?? ANALYSIS_DEFAULTS.maxDepth,
+    endgameEmptiesOverride: options.endgameEmpties ?? ANALYSIS_DEFAULTS.endgameEmpties,
+  }
+  const plies: PlyAnalysis[] = []
+  let position = createInitialPosition()
+  let balance = 0
+
+  moves.forEach((record, index) => {
+    const next = advancePosition(position, record)
+    if (!next) {
+      throw new Error(`Illegal move at ply ${index + 1}.`)
+    }
+
+    if (record.index === null) {
+      plies.push({
+        ply: index + 1,
+        disk: record.disk,
+        move: null,
+        candidates: [],
+        bestMove: null,
+        playedScore: null,
+        loss: 0,
+        exact: false,
+        verdict: null,
+        balance,
+      })
+    } else {
+      const candidates = scoreCpuMoves(position.board, record.disk, searchOptions)
+      const best = candidates[0]
+      const played = candidates.find((candidate) => candidate.move === record.index) ?? best
+      const loss = Math.max(0, best.score - played.score)
+      balance = toBalance(played.score, played.exact, record.disk)
+      plies.push({
+        ply: index + 1,
+        disk: record.disk,
+        move: record.index,
+        candidates,
+        bestMove: best.move,
+        playedScore: played.score,
+        loss,
+        exact: played.exact,
+        verdict: classifyLoss(loss, played.exact),
+        balance,
+      })
+    }
+
+    position = next
+    options.onProgress?.(index + 1, moves.length)
+  })
+
+  return { plies }
+}
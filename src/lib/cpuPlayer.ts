@@ -1,16 +1,48 @@
 import {
-  applyMove,
-  BOARD_SIZE,
-  computeValidMoves,
-  countDisks,
+  applyBitboardMove,
+  bitboardIndices,
+  boardToBitboards,
+  computeFlipMask,
+  computeMoveMask,
+  computeStableMask,
+  hasBit,
+  isEmptyBitboard,
   nextDisk,
+  popcount,
+  type Bitboard,
   type Cell,
   type Disk,
-} from './othello'
+} from './othello.js'
+import {
+  computeZobristHash,
+  createTranspositionTable,
+  passZobristHash,
+  probeTransposition,
+  storeTransposition,
+  updateZobristHash,
+  type TranspositionTable,
+  type ZobristHash,
+} from './transposition.js'
+import { lookupBookMoves, pickBookMove } from './openingBook.js'
+import { patternEvaluator, type Evaluator } from './evaluation.js'
+import { createSeededRandom, type RandomSource } from './random.js'
+
+export type EvaluatorName = 'heuristic' | 'pattern'
 
 type DifficultyConfig = {
-  maxDepth: number
+  /** Static evaluation used at the search horizon; defaults to `heuristic`. */
+  evaluator?: EvaluatorName
+  /** Fixed search depth, or the depth cap for iterative deepening when `timeLimitMs` is set. */
+  maxDepth?: number
+  /** Thinking budget in milliseconds; enables iterative deepening. */
+  timeLimitMs?: number
   evaluationNoise?: number
+  /** Switch to the exact endgame solver once this many squares (or fewer) are empty. */
+  endgameEmpties?: number
+  /** Play from the opening book while fewer than this many moves have been made. */
+  bookDepth?: number
+  /** Chance (0-1) of a weighted random book move instead of the heaviest one. */
+  bookRandomness?: number
 }
 
 export type CpuDifficulty = 'easy' | 'normal' | 'hard' | 'saikyo'
@@ -24,48 +56,101 @@ export const CPU_DIFFICULTY_LABELS: Record<CpuDifficulty, string> = {
 
 export const CPU_DIFFICULTY_PRESETS: Record<CpuDifficulty, DifficultyConfig> = {
   easy: { maxDepth: 1, evaluationNoise: 35 },
-  normal: { maxDepth: 4 },
-  hard: { maxDepth: 5 },
-  saikyo: { maxDepth: 6 },
+  normal: { maxDepth: 4, bookDepth: 6, bookRandomness: 0.8 },
+  hard: { maxDepth: 5, bookDepth: 10, bookRandomness: 0.5 },
+  saikyo: { timeLimitMs: 1500, endgameEmpties: 12, bookDepth: 20, bookRandomness: 0.3 },
 }
 
 const DIFFICULTY_CONFIG = CPU_DIFFICULTY_PRESETS
 
+/** Playing style, orthogonal to difficulty: the difficulty still sets depth, time and noise. */
+export type CpuPersonality = 'standard' | 'greedy' | 'edge' | 'mobility' | 'random'
+
+export const CPU_PERSONALITY_LABELS: Record<CpuPersonality, string> = {
+  standard: '標準',
+  greedy: '石取り',
+  edge: '辺好き',
+  mobility: '着手数重視',
+  random: 'ランダム',
+}
+
+type PersonalityConfig = {
+  /** Replaces the difficulty's evaluator. */
+  evaluator?: Evaluator
+  /** Play a uniformly random legal move without searching. */
+  randomMoves?: boolean
+  /** Ignore the opening book so the style shows from the first move. */
+  skipOpeningBook?: boolean
+}
+
 export interface CpuMoveOptions {
   difficulty?: CpuDifficulty
+  /** Defaults to `standard`, which plays exactly as the difficulty preset. */
+  personality?: CpuPersonality
   maxDepthOverride?: number
+  endgameEmptiesOverride?: number
+  timeLimitMs?: number
+  /** Disable to measure the search without transposition hits (e.g. in the bench). */
+  useTranspositionTable?: boolean
+  /** Disable to always search, even in book positions. */
+  useOpeningBook?: boolean
+  /** Swap the preset's evaluator, e.g. to compare evaluators at equal depth. */
+  evaluatorOverride?: EvaluatorName
+  /** Evaluator instance to use instead of any named one (scripts only; can't be sent to a worker). */
+  customEvaluator?: Evaluator
+  /**
+   * Seeds every random choice of the call (evaluation noise, book picks, the
+   * random personality) so the move can be reproduced. Unseeded calls use `Math.random`.
+   */
+  seed?: number
+  /** Random source to use instead of `seed`, e.g. one stream for a whole game (scripts only). */
+  random?: RandomSource
+  /** Called after every completed search iteration with the best line found so far. */
+  onProgress?: (progress: CpuMoveResult) => void
 }
 
 export interface CpuMoveResult {
   move: number | null
+  /** Heuristic score, or the final disc difference when `exact` is true. */
   score: number
   depth: number
   nodes: number
+  exact: boolean
+  /** The move came from the opening book; `score` and `depth` are 0. */
+  book: boolean
 }
 
-const CORNERS = [0, 7, 56, 63]
-const CORNER_ADJACENT: Record<number, number[]> = {
-  0: [1, 8, 9],
-  7: [6, 14, 15],
-  56: [48, 49, 57],
-  63: [54, 55, 62],
-}
-const EDGE_INDICES = new Set<number>()
-const CORNER_SET = new Set(CORNERS)
-const CORNER_DANGER = new Set<number>([1, 8, 9, 6, 14, 15, 48, 49, 57, 54, 55, 62])
-
-for (let index = 0; index < BOARD_SIZE * BOARD_SIZE; index += 1) {
-  const row = Math.floor(index / BOARD_SIZE)
-  const col = index % BOARD_SIZE
-  if (row === 0 || row === BOARD_SIZE - 1 || col === 0 || col === BOARD_SIZE - 1) {
-    EDGE_INDICES.add(index)
-  }
+export interface CpuMoveScore {
+  move: number
+  score: number
+  exact: boolean
 }
 
+const CORNER_MASK: Bitboard = { lo: 0x00000081, hi: 0x81000000 }
+const CORNER_ADJACENT: Array<[number, Bitboard]> = [
+  [0, { lo: 0x00000302, hi: 0 }],
+  [7, { lo: 0x0000c040, hi: 0 }],
+  [56, { lo: 0, hi: 0x02030000 }],
+  [63, { lo: 0, hi: 0x40c00000 }],
+]
+const CORNER_DANGER_MASK: Bitboard = { lo: 0x0000c342, hi: 0x42c30000 }
+const EDGE_MASK: Bitboard = { lo: 0x818181ff, hi: 0xff818181 }
+const NOT_A_FILE = 0xfefefefe
+const NOT_H_FILE = 0x7f7f7f7f
+
+const DEFAULT_MAX_DEPTH = 4
+const MAX_SEARCH_DEPTH = 60
+// How often (in nodes) the search looks at the clock.
+const DEADLINE_CHECK_INTERVAL = 1024
+
 interface SearchContext {
-  maximizingDisk: Disk
   config: DifficultyConfig
+  evaluator: Evaluator
   stats: { nodes: number }
+  deadline: number
+  aborted: boolean
+  table: TranspositionTable | null
+  random: RandomSource
 }
 
 interface SearchResult {
@@ -73,82 +158,273 @@ interface SearchResult {
   score: number
 }
 
+const resolveConfig = (options: CpuMoveOptions): DifficultyConfig => ({
+  ...DIFFICULTY_CONFIG[options.difficulty ?? 'normal'],
+  ...(options.maxDepthOverride ? { maxDepth: options.maxDepthOverride } : {}),
+  ...(options.endgameEmptiesOverride !== undefined
+    ? { endgameEmpties: options.endgameEmptiesOverride }
+    : {}),
+  ...(options.evaluatorOverride ? { evaluator: options.evaluatorOverride } : {}),
+})
+
+const createSearchContext = (config: DifficultyConfig, options: CpuMoveOptions): SearchContext => ({
+  config,
+  evaluator:
+    options.customEvaluator ??
+    PERSONALITIES[options.personality ?? 'standard'].evaluator ??
+    EVALUATORS[config.evaluator ?? 'heuristic'],
+  stats: { nodes: 0 },
+  deadline: Infinity,
+  aborted: false,
+  table: options.useTranspositionTable === false ? null : createTranspositionTable(),
+  random:
+    options.random ??
+    (options.seed === undefined ? Math.random : createSeededRandom(options.seed)),
+})
+
 export const chooseCpuMove = (
   board: Cell[],
   disk: Disk,
   options: CpuMoveOptions = {},
 ): CpuMoveResult => {
-  const difficulty = options.difficulty ?? 'normal'
-  const config = {
-    ...DIFFICULTY_CONFIG[difficulty],
-    ...(options.maxDepthOverride ? { maxDepth: options.maxDepthOverride } : {}),
+  const config = resolveConfig(options)
+  const context = createSearchContext(config, options)
+  const personality = PERSONALITIES[options.personality ?? 'standard']
+
+  const bitboards = boardToBitboards(board)
+  const player = bitboards[disk]
+  const opponent = bitboards[nextDisk(disk)]
+  const hash = computeZobristHash(bitboards.B, bitboards.W, disk)
+  const empties = 64 - popcount(player) - popcount(opponent)
+
+  if (personality.randomMoves) {
+    const moves = bitboardIndices(computeMoveMask(player, opponent))
+    const result: CpuMoveResult = {
+      move: moves.length ? moves[Math.floor(context.random() * moves.length)] : null,
+      score: 0,
+      depth: 0,
+      nodes: 0,
+      exact: false,
+      book: false,
+    }
+    options.onProgress?.(result)
+    return result
   }
 
-  const context: SearchContext = {
-    maximizingDisk: disk,
-    config,
-    stats: { nodes: 0 },
+  if (
+    options.useOpeningBook !== false &&
+    !personality.skipOpeningBook &&
+    config.bookDepth &&
+    60 - empties < config.bookDepth
+  ) {
+    const bookMove = pickBookMove(
+      lookupBookMoves(board, disk),
+      config.bookRandomness ?? 0,
+      context.random,
+    )
+    if (bookMove !== null) {
+      const result: CpuMoveResult = {
+        move: bookMove,
+        score: 0,
+        depth: 0,
+        nodes: 0,
+        exact: false,
+        book: true,
+      }
+      options.onProgress?.(result)
+      return result
+    }
+  }
+
+  const inEndgame = Boolean(config.endgameEmpties && empties <= config.endgameEmpties)
+  const timeLimitMs = options.timeLimitMs ?? config.timeLimitMs
+
+  if (!timeLimitMs) {
+    const maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH
+    const result = inEndgame
+      ? solveEndgame(player, opponent, -Infinity, Infinity, false, context)
+      : negamax(player, opponent, disk, hash, maxDepth, -Infinity, Infinity, context)
+    const final: CpuMoveResult = {
+      move: result.move,
+      score: result.score,
+      depth: inEndgame ? empties : maxDepth,
+      nodes: context.stats.nodes,
+      exact: inEndgame,
+      book: false,
+    }
+    options.onProgress?.(final)
+    return final
+  }
+
+  const startedAt = now()
+  const maxDepth = Math.min(config.maxDepth ?? MAX_SEARCH_DEPTH, MAX_SEARCH_DEPTH)
+
+  const searchToDepth = (depth: number): CpuMoveResult => {
+    // Once the game end is within reach, the next iteration is the exact solve.
+    const solveExactly = depth > 1 && (inEndgame || depth >= empties)
+    const result = solveExactly
+      ? solveEndgame(player, opponent, -Infinity, Infinity, false, context)
+      : negamax(player, opponent, disk, hash, depth, -Infinity, Infinity, context)
+    return {
+      move: result.move,
+      score: result.score,
+      depth: solveExactly ? empties : depth,
+      nodes: context.stats.nodes,
+      exact: solveExactly,
+      book: false,
+    }
+  }
+
+  // Depth 1 always completes, whatever the depth cap or time limit, so there is a move to fall back on.
+  let best = searchToDepth(1)
+  options.onProgress?.(best)
+  context.deadline = startedAt + timeLimitMs
+
+  for (let depth = 2; depth <= maxDepth && !best.exact && now() - startedAt < timeLimitMs; depth += 1) {
+    const result = searchToDepth(depth)
+    if (context.aborted) break
+    best = result
+    options.onProgress?.(best)
   }
 
-  const result = negamax(board, disk, config.maxDepth, -Infinity, Infinity, context)
+  return { ...best, nodes: context.stats.nodes }
+}
+
+/**
+ * Scores every legal move for `disk` with a full-window search, best first.
+ * Uses the preset's fixed depth (time limits are ignored) or the exact solver
+ * in the endgame, so scores share the units described on `CpuMoveResult`.
+ */
+export const scoreCpuMoves = (
+  board: Cell[],
+  disk: Disk,
+  options: CpuMoveOptions = {},
+): CpuMoveScore[] => {
+  const config = resolveConfig(options)
+  const context = createSearchContext(config, options)
+
+  const bitboards = boardToBitboards(board)
+  const player = bitboards[disk]
+  const opponent = bitboards[nextDisk(disk)]
+  const opponentDisk = nextDisk(disk)
+  const hash = computeZobristHash(bitboards.B, bitboards.W, disk)
+  const empties = 64 - popcount(player) - popcount(opponent)
+  const exact = Boolean(config.endgameEmpties && empties <= config.endgameEmpties)
+  const depth = Math.max(config.maxDepth ?? DEFAULT_MAX_DEPTH, 1)
+
+  return bitboardIndices(computeMoveMask(player, opponent))
+    .map((index) => {
+      const flips = computeFlipMask(player, opponent, index)
+      const next = applyBitboardMove(player, opponent, index, flips)
+      const result = exact
+        ? solveEndgame(next.opponent, next.player, -Infinity, Infinity, false, context)
+        : negamax(
+            next.opponent,
+            next.player,
+            opponentDisk,
+            updateZobristHash(hash, disk, index, flips),
+            depth - 1,
+            -Infinity,
+            Infinity,
+            context,
+          )
+      return { move: index, score: -result.score, exact }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+const now = () => performance.now()
 
-  return {
-    move: result.move,
-    score: result.score,
-    depth: config.maxDepth,
-    nodes: context.stats.nodes,
+const isOutOfTime = (context: SearchContext) => {
+  if (context.aborted) return true
+  if (context.stats.nodes % DEADLINE_CHECK_INTERVAL === 0 && now() >= context.deadline) {
+    context.aborted = true
   }
+  return context.aborted
 }
 
-const applyEvaluationNoise = (value: number, magnitude: number) => {
-  const noise = (Math.random() * 2 - 1) * magnitude
+const applyEvaluationNoise = (value: number, magnitude: number, random: RandomSource) => {
+  const noise = (random() * 2 - 1) * magnitude
   return value + noise
 }
 
-const hasEmptyCell = (board: Cell[]) => board.some((cell) => cell === null)
+const hasEmptyCell = (player: Bitboard, opponent: Bitboard) =>
+  popcount(player) + popcount(opponent) < 64
 
-const evaluatePerspective = (board: Cell[], disk: Disk, context: SearchContext) => {
-  let raw = evaluateBoard(board, context.maximizingDisk)
+const evaluatePerspective = (player: Bitboard, opponent: Bitboard, context: SearchContext) => {
+  let score = context.evaluator.evaluate(player, opponent)
   const noise = context.config.evaluationNoise
-  if (noise && noise > 0 && hasEmptyCell(board)) {
-    raw = applyEvaluationNoise(raw, noise)
+  if (noise && noise > 0 && hasEmptyCell(player, opponent)) {
+    score = applyEvaluationNoise(score, noise, context.random)
   }
-  return disk === context.maximizingDisk ? raw : -raw
+  return score
 }
 
 const negamax = (
-  board: Cell[],
+  player: Bitboard,
+  opponent: Bitboard,
   disk: Disk,
+  hash: ZobristHash,
   depth: number,
   alpha: number,
   beta: number,
   context: SearchContext,
 ): SearchResult => {
   context.stats.nodes += 1
+  if (isOutOfTime(context)) return { move: null, score: 0 }
   if (depth === 0) {
-    return { move: null, score: evaluatePerspective(board, disk, context) }
+    return { move: null, score: evaluatePerspective(player, opponent, context) }
+  }
+
+  const alphaOrigin = alpha
+  const entry = context.table ? probeTransposition(context.table, hash) : null
+  if (entry && entry.depth >= depth) {
+    if (entry.bound === 'exact') return { move: entry.bestMove, score: entry.score }
+    if (entry.bound === 'lower') alpha = Math.max(alpha, entry.score)
+    else beta = Math.min(beta, entry.score)
+    if (alpha >= beta) return { move: entry.bestMove, score: entry.score }
   }
 
-  const moves = computeValidMoves(board, disk)
-  const opponent = nextDisk(disk)
+  const moves = computeMoveMask(player, opponent)
+  const opponentDisk = nextDisk(disk)
 
-  if (moves.size === 0) {
-    const opponentMoves = computeValidMoves(board, opponent)
-    if (opponentMoves.size === 0) {
-      return { move: null, score: evaluatePerspective(board, disk, context) }
+  if (isEmptyBitboard(moves)) {
+    const opponentMoves = computeMoveMask(opponent, player)
+    if (isEmptyBitboard(opponentMoves)) {
+      return { move: null, score: scoreFinishedGame(player, opponent) }
     }
-    const passResult = negamax(board, opponent, depth, -beta, -alpha, context)
+    const passResult = negamax(
+      opponent,
+      player,
+      opponentDisk,
+      passZobristHash(hash),
+      depth,
+      -beta,
+      -alpha,
+      context,
+    )
     return { move: null, score: -passResult.score }
   }
 
   let bestMove: number | null = null
   let bestScore = -Infinity
 
-  const orderedMoves = orderMoves([...moves.entries()])
-
-  for (const [index, flips] of orderedMoves) {
-    const nextBoard = applyMove(board, index, disk, flips)
-    const result = negamax(nextBoard, opponent, depth - 1, -beta, -alpha, context)
+  const orderedMoves = orderMoves(bitboardIndices(moves), entry?.bestMove ?? null)
+
+  for (const index of orderedMoves) {
+    const flips = computeFlipMask(player, opponent, index)
+    const next = applyBitboardMove(player, opponent, index, flips)
+    const result = negamax(
+      next.opponent,
+      next.player,
+      opponentDisk,
+      updateZobristHash(hash, disk, index, flips),
+      depth - 1,
+      -beta,
+      -alpha,
+      context,
+    )
+    if (context.aborted) break
     const score = -result.score
     if (score > bestScore) {
       bestScore = score
@@ -162,110 +438,273 @@ const negamax = (
     }
   }
 
+  if (context.table && !context.aborted) {
+    const bound =
+      bestScore <= alphaOrigin ? 'upper' : bestScore >= beta ? 'lower' : 'exact'
+    storeTransposition(context.table, hash, depth, bestScore, bound, bestMove)
+  }
+
+  return { move: bestMove, score: bestScore }
+}
+
+// Below this many empties, ordering by opponent mobility costs more than it saves.
+const FASTEST_FIRST_MIN_EMPTIES = 7
+
+const getFinalDiscDifference = (player: Bitboard, opponent: Bitboard) => {
+  const mine = popcount(player)
+  const theirs = popcount(opponent)
+  const empties = 64 - mine - theirs
+  if (mine > theirs) return mine - theirs + empties
+  if (mine < theirs) return mine - theirs - empties
+  return 0
+}
+
+// Finished games reached inside the heuristic search outrank any static evaluation,
+// so a forced win (or wipeout) is never traded for a better-looking position.
+const DECIDED_GAME_BONUS = 10000
+
+const scoreFinishedGame = (player: Bitboard, opponent: Bitboard) => {
+  const difference = getFinalDiscDifference(player, opponent)
+  return difference + Math.sign(difference) * DECIDED_GAME_BONUS
+}
+
+/**
+ * The final disc margin behind a heuristic score whose line ends the game
+ * inside the search, or null if the score is a static evaluation.
+ */
+export const decidedMargin = (score: number) =>
+  Math.abs(score) > DECIDED_GAME_BONUS ? score - Math.sign(score) * DECIDED_GAME_BONUS : null
+
+const quadrantOf = (index: number) => (index >= 32 ? 2 : 0) + (index % 8 >= 4 ? 1 : 0)
+
+// Squares in quadrants with an odd number of empties first, so we tend to take the last move there.
+const orderByParity = (moves: number[], empties: Bitboard) => {
+  const counts = [0, 0, 0, 0]
+  for (const index of bitboardIndices(empties)) counts[quadrantOf(index)] += 1
+  const parityScore = (index: number) => (counts[quadrantOf(index)] % 2 === 1 ? 1 : 0)
+  return moves.sort((a, b) => parityScore(b) - parityScore(a))
+}
+
+const orderEndgameMoves = (
+  moves: number[],
+  player: Bitboard,
+  opponent: Bitboard,
+  empties: Bitboard,
+) => {
+  const byParity = orderByParity(moves, empties)
+  if (popcount(empties) < FASTEST_FIRST_MIN_EMPTIES) {
+    return byParity.map((index) => ({ index, flips: computeFlipMask(player, opponent, index) }))
+  }
+  // Fastest-first: prefer replies that leave the opponent the fewest moves (stable sort keeps parity ties).
+  return byParity
+    .map((index) => {
+      const flips = computeFlipMask(player, opponent, index)
+      const next = applyBitboardMove(player, opponent, index, flips)
+      return { index, flips, replies: popcount(computeMoveMask(next.opponent, next.player)) }
+    })
+    .sort((a, b) => a.replies - b.replies)
+}
+
+/**
+ * Perfect-play search to the end of the game, scored by final disc difference
+ * from the perspective of `player`.
+ */
+const solveEndgame = (
+  player: Bitboard,
+  opponent: Bitboard,
+  alpha: number,
+  beta: number,
+  passed: boolean,
+  context: SearchContext,
+): SearchResult => {
+  context.stats.nodes += 1
+  if (isOutOfTime(context)) return { move: null, score: 0 }
+  const moves = computeMoveMask(player, opponent)
+
+  if (isEmptyBitboard(moves)) {
+    if (passed) {
+      return { move: null, score: getFinalDiscDifference(player, opponent) }
+    }
+    const passResult = solveEndgame(opponent, player, -beta, -alpha, true, context)
+    return { move: null, score: -passResult.score }
+  }
+
+  const empties: Bitboard = {
+    lo: ~(player.lo | opponent.lo) >>> 0,
+    hi: ~(player.hi | opponent.hi) >>> 0,
+  }
+  let bestMove: number | null = null
+  let bestScore = -Infinity
+
+  for (const { index, flips } of orderEndgameMoves(bitboardIndices(moves), player, opponent, empties)) {
+    const next = applyBitboardMove(player, opponent, index, flips)
+    const score = -solveEndgame(next.opponent, next.player, -beta, -alpha, false, context).score
+    if (context.aborted) break
+    if (score > bestScore) {
+      bestScore = score
+      bestMove = index
+    }
+    if (score > alpha) {
+      alpha = score
+    }
+    if (alpha >= beta) {
+      break
+    }
+  }
+
   return { move: bestMove, score: bestScore }
 }
 
-const orderMoves = (entries: Array<[number, number[]]>) =>
-  entries.sort((a, b) => scoreMove(b[0]) - scoreMove(a[0]))
+// The transposition table's best move (from a shallower or earlier search) is tried first.
+const orderMoves = (indices: number[], hashMove: number | null) =>
+  indices.sort((a, b) => {
+    if (a === hashMove) return -1
+    if (b === hashMove) return 1
+    return scoreMove(b) - scoreMove(a)
+  })
 
 const scoreMove = (index: number) => {
-  if (CORNER_SET.has(index)) return 100
-  if (CORNER_DANGER.has(index)) return -40
-  if (EDGE_INDICES.has(index)) return 10
+  if (hasBit(CORNER_MASK, index)) return 100
+  if (hasBit(CORNER_DANGER_MASK, index)) return -40
+  if (hasBit(EDGE_MASK, index)) return 10
   return 0
 }
 
-const evaluateBoard = (board: Cell[], disk: Disk) => {
-  const opponent = nextDisk(disk)
-  const diskScore = getDiskScore(board, disk, opponent)
-  const mobilityScore = getMobilityScore(board, disk, opponent)
-  const cornerScore = getCornerScore(board, disk, opponent)
-  const frontierScore = getFrontierScore(board, disk, opponent)
-  const edgeScore = getEdgeScore(board, disk, opponent)
+/** Multipliers on the hand-tuned heuristic terms; 0 skips a term entirely. */
+type HeuristicWeights = Record<
+  'disks' | 'mobility' | 'corners' | 'frontier' | 'edges' | 'stability',
+  number
+>
+
+const STANDARD_HEURISTIC_WEIGHTS: HeuristicWeights = {
+  disks: 1,
+  mobility: 1,
+  corners: 1,
+  frontier: 1,
+  edges: 1,
+  stability: 1,
+}
+
+const createHeuristicEvaluator = (weights: HeuristicWeights): Evaluator => ({
+  evaluate: (player, opponent) => {
+    let score = 0
+    if (weights.disks) score += weights.disks * getDiskScore(player, opponent)
+    if (weights.mobility) score += weights.mobility * getMobilityScore(player, opponent)
+    if (weights.corners) score += weights.corners * getCornerScore(player, opponent)
+    if (weights.frontier) score += weights.frontier * getFrontierScore(player, opponent)
+    if (weights.edges) score += weights.edges * getEdgeScore(player, opponent)
+    if (weights.stability) score += weights.stability * getStabilityScore(player, opponent)
+    return score
+  },
+})
+
+export const EVALUATOR_LABELS: Record<EvaluatorName, string> = {
+  heuristic: 'ヒューリスティック',
+  pattern: 'パターン',
+}
 
-  return diskScore + mobilityScore + cornerScore + frontierScore + edgeScore
+const EVALUATORS: Record<EvaluatorName, Evaluator> = {
+  heuristic: createHeuristicEvaluator(STANDARD_HEURISTIC_WEIGHTS),
+  pattern: patternEvaluator,
 }
 
-const getDiskScore = (board: Cell[], disk: Disk, opponent: Disk) => {
-  const counts = countDisks(board)
-  const total = counts[disk] + counts[opponent]
+const PERSONALITIES: Record<CpuPersonality, PersonalityConfig> = {
+  standard: {},
+  // Maximises the disc count at the horizon and nothing else.
+  greedy: {
+    evaluator: createHeuristicEvaluator({
+      disks: 1,
+      mobility: 0,
+      corners: 0,
+      frontier: 0,
+      edges: 0,
+      stability: 0,
+    }),
+    skipOpeningBook: true,
+  },
+  // Grabs edges and corners even when the standard weights would wait.
+  edge: {
+    evaluator: createHeuristicEvaluator({ ...STANDARD_HEURISTIC_WEIGHTS, corners: 1.5, edges: 8 }),
+    skipOpeningBook: true,
+  },
+  // Keeps few discs and many moves: the "evaporation" style.
+  mobility: {
+    evaluator: createHeuristicEvaluator({
+      ...STANDARD_HEURISTIC_WEIGHTS,
+      disks: -0.5,
+      mobility: 3,
+      frontier: 2,
+      edges: 0,
+    }),
+    skipOpeningBook: true,
+  },
+  random: { randomMoves: true },
+}
+
+const intersect = (a: Bitboard, b: Bitboard): Bitboard => ({
+  lo: (a.lo & b.lo) >>> 0,
+  hi: (a.hi & b.hi) >>> 0,
+})
+
+const getDiskScore = (player: Bitboard, opponent: Bitboard) => {
+  const mine = popcount(player)
+  const theirs = popcount(opponent)
+  const total = mine + theirs
   if (total === 0) return 0
-  return ((counts[disk] - counts[opponent]) / total) * 100
+  return ((mine - theirs) / total) * 100
 }
 
-const getMobilityScore = (board: Cell[], disk: Disk, opponent: Disk) => {
-  const myMoves = computeValidMoves(board, disk).size
-  const oppMoves = computeValidMoves(board, opponent).size
+const getMobilityScore = (player: Bitboard, opponent: Bitboard) => {
+  const myMoves = popcount(computeMoveMask(player, opponent))
+  const oppMoves = popcount(computeMoveMask(opponent, player))
   const total = myMoves + oppMoves
   if (total === 0) return 0
   return ((myMoves - oppMoves) / total) * 90
 }
 
-const getCornerScore = (board: Cell[], disk: Disk, opponent: Disk) => {
+const getCornerScore = (player: Bitboard, opponent: Bitboard) => {
   let score = 0
-  for (const corner of CORNERS) {
-    const occupant = board[corner]
-    if (occupant === disk) score += 125
-    else if (occupant === opponent) score -= 125
+  for (const [corner, adjacent] of CORNER_ADJACENT) {
+    if (hasBit(player, corner)) score += 125
+    else if (hasBit(opponent, corner)) score -= 125
     else {
-      const adjacent = CORNER_ADJACENT[corner]
-      for (const adj of adjacent) {
-        if (board[adj] === disk) score -= 40
-        else if (board[adj] === opponent) score += 40
-      }
+      score -= popcount(intersect(player, adjacent)) * 40
+      score += popcount(intersect(opponent, adjacent)) * 40
     }
   }
   return score
 }
 
-const getFrontierScore = (board: Cell[], disk: Disk, opponent: Disk) => {
-  let myFrontier = 0
-  let oppFrontier = 0
-
-  for (let index = 0; index < board.length; index += 1) {
-    const cell = board[index]
-    if (!cell) continue
-    const row = Math.floor(index / BOARD_SIZE)
-    const col = index % BOARD_SIZE
-    let isFrontier = false
-
-    for (let dRow = -1; dRow <= 1 && !isFrontier; dRow += 1) {
-      for (let dCol = -1; dCol <= 1; dCol += 1) {
-        if (dRow === 0 && dCol === 0) continue
-        const nextRow = row + dRow
-        const nextCol = col + dCol
-        if (
-          nextRow < 0 ||
-          nextRow >= BOARD_SIZE ||
-          nextCol < 0 ||
-          nextCol >= BOARD_SIZE
-        ) {
-          continue
-        }
-        const neighborIndex = nextRow * BOARD_SIZE + nextCol
-        if (board[neighborIndex] === null) {
-          isFrontier = true
-          break
-        }
-      }
-    }
-
-    if (!isFrontier) continue
-    if (cell === disk) myFrontier += 1
-    else if (cell === opponent) oppFrontier += 1
-  }
+// Spreads the empty squares one step in every direction; any disc it touches is a frontier disc.
+const getFrontierMask = (player: Bitboard, opponent: Bitboard): Bitboard => {
+  const emptyLo = ~(player.lo | opponent.lo) >>> 0
+  const emptyHi = ~(player.hi | opponent.hi) >>> 0
+  const eastLo = (emptyLo << 1) & NOT_A_FILE
+  const eastHi = ((emptyHi << 1) | (emptyLo >>> 31)) & NOT_A_FILE
+  const westLo = ((emptyLo >>> 1) | (emptyHi << 31)) & NOT_H_FILE
+  const westHi = (emptyHi >>> 1) & NOT_H_FILE
+  const rowLo = emptyLo | eastLo | westLo
+  const rowHi = emptyHi | eastHi | westHi
+  const lo = rowLo | (rowLo << 8) | (rowLo >>> 8) | (rowHi << 24)
+  const hi = rowHi | (rowHi << 8) | (rowLo >>> 24) | (rowHi >>> 8)
+  return { lo: lo >>> 0, hi: hi >>> 0 }
+}
 
+const getFrontierScore = (player: Bitboard, opponent: Bitboard) => {
+  const frontier = getFrontierMask(player, opponent)
+  const myFrontier = popcount(intersect(player, frontier))
+  const oppFrontier = popcount(intersect(opponent, frontier))
   const total = myFrontier + oppFrontier
   if (total === 0) return 0
   return ((oppFrontier - myFrontier) / total) * 60
 }
 
-const getEdgeScore = (board: Cell[], disk: Disk, opponent: Disk) => {
-  let score = 0
-  for (const index of EDGE_INDICES) {
-    const occupant = board[index]
-    if (occupant === disk) score += 6
-    else if (occupant === opponent) score -= 6
-  }
-  return score
-}
+const getEdgeScore = (player: Bitboard, opponent: Bitboard) =>
+  (popcount(intersect(player, EDGE_MASK)) - popcount(intersect(opponent, EDGE_MASK))) * 6
+
+// Per stable disc, on top of the corner and edge terms that already reward the usual anchors.
+const STABILITY_WEIGHT = 15
+
+const getStabilityScore = (player: Bitboard, opponent: Bitboard) =>
+  (popcount(computeStableMask(player, opponent)) - popcount(computeStableMask(opponent, player))) *
+  STABILITY_WEIGHT
@@ -0,0 +1,212 @@
+import { computeMoveMask, computeStableMask, hasBit, popcount, type Bitboard } from './othello.js'
+import defaultPatternWeights from './patternWeights.json' with { type: 'json' }
+
+/** Static evaluation from the point of view of `player`, the side to move. */
+export interface Evaluator {
+  evaluate: (player: Bitboard, opponent: Bitboard) => number
+}
+
+export type PatternName = 'edge' | 'corner' | 'diagonal'
+
+/**
+ * Pattern instances as cell lists. Every instance of a pattern lists its cells
+ * in the same orientation (corner first), so they all share one table.
+ */
+export const PATTERNS: Record<PatternName, number[][]> = {
+  edge: [
+    [0, 1, 2, 3, 4, 5, 6, 7],
+    [0, 8, 16, 24, 32, 40, 48, 56],
+    [7, 15, 23, 31, 39, 47, 55, 63],
+    [56, 57, 58, 59, 60, 61, 62, 63],
+  ],
+  corner: [
+    [0, 1, 2, 8, 9, 10, 16, 17, 18],
+    [7, 6, 5, 15, 14, 13, 23, 22, 21],
+    [56, 57, 58, 48, 49, 50, 40, 41, 42],
+    [63, 62, 61, 55, 54, 53, 47, 46, 45],
+  ],
+  diagonal: [
+    [0, 9, 18, 27, 36, 45, 54, 63],
+    [7, 14, 21, 28, 35, 42, 49, 56],
+  ],
+}
+
+const PATTERN_NAMES = Object.keys(PATTERNS) as PatternName[]
+
+/**
+ * Weight file format. `squares` holds, per phase, the values of the 10
+ * distinct squares (a1 b1 c1 d1 b2 c2 d2 c3 d3 d4) that seed every pattern
+ * table; `mobility` and `stability` weigh the move-count and stable-disc
+ * differences; `patterns` holds sparse per-configuration corrections keyed by
+ * one character per cell: `x` the side to move, `o` the opponent, `-` empty.
+ */
+export interface PatternWeightFile {
+  version: number
+  phaseCount: number
+  squares: number[][]
+  mobility: number[]
+  stability: number[]
+  patterns: Record<PatternName, Array<Record<string, number>>>
+}
+
+const PATTERN_CELL_STATES = ['-', 'x', 'o'] as const
+
+const squareClass = (index: number) => {
+  const row = Math.min(Math.floor(index / 8), 7 - Math.floor(index / 8))
+  const col = Math.min(index % 8, 7 - (index % 8))
+  const [low, high] = row <= col ? [row, col] : [col, row]
+  // Rows of the folded triangle start at 0 (a1-d1), 4 (b2-d2), 7 (c3-d3) and 9 (d4).
+  return [0, 4, 7, 9][low] + (high - low)
+}
+
+// How many pattern instances cover each square, so seeding from `squares` doesn't count a square twice.
+const COVERAGE = (() => {
+  const counts = new Array<number>(64).fill(0)
+  for (const name of PATTERN_NAMES) {
+    for (const cells of PATTERNS[name]) {
+      for (const cell of cells) counts[cell] += 1
+    }
+  }
+  return counts
+})()
+
+export const getPhase = (player: Bitboard, opponent: Bitboard, phaseCount: number) => {
+  const played = popcount(player) + popcount(opponent) - 4
+  return Math.min(phaseCount - 1, Math.floor((played * phaseCount) / 60))
+}
+
+/** Base-3 configuration index of one pattern instance: cell k contributes state * 3^k. */
+export const getPatternIndex = (player: Bitboard, opponent: Bitboard, cells: number[]) => {
+  let index = 0
+  for (let k = cells.length - 1; k >= 0; k -= 1) {
+    index *= 3
+    if (hasBit(player, cells[k])) index += 1
+    else if (hasBit(opponent, cells[k])) index += 2
+  }
+  return index
+}
+
+export const patternIndexToKey = (index: number, length: number) => {
+  let key = ''
+  for (let k = 0; k < length; k += 1) {
+    key += PATTERN_CELL_STATES[index % 3]
+    index = Math.floor(index / 3)
+  }
+  return key
+}
+
+const patternKeyToIndex = (key: string) => {
+  let index = 0
+  for (let k = key.length - 1; k >= 0; k -= 1) {
+    const state = PATTERN_CELL_STATES.indexOf(key[k] as (typeof PATTERN_CELL_STATES)[number])
+    if (state < 0) throw new Error(`Invalid pattern key "${key}".`)
+    index = index * 3 + state
+  }
+  return index
+}
+
+const isNumberArray = (value: unknown, length: number) =>
+  Array.isArray(value) &&
+  value.length === length &&
+  value.every((entry) => typeof entry === 'number' && Number.isFinite(entry))
+
+/** Checks the shape of a parsed weight file; throws with the first problem found. */
+export const parsePatternWeights = (data: unknown): PatternWeightFile => {
+  const file = data as Partial<PatternWeightFile> | null
+  if (!file || file.version !== 1) throw new Error('Unsupported pattern weight file version.')
+  const phaseCount = file.phaseCount
+  if (typeof phaseCount !== 'number' || phaseCount < 1) {
+    throw new Error('Pattern weight file needs a positive phaseCount.')
+  }
+  if (!Array.isArray(file.squares) || file.squares.length !== phaseCount) {
+    throw new Error('Pattern weight file needs one square table per phase.')
+  }
+  if (!file.squares.every((table) => isNumberArray(table, 10))) {
+    throw new Error('Each square table needs 10 numbers.')
+  }
+  if (!isNumberArray(file.mobility, phaseCount)) {
+    throw new Error('Pattern weight file needs one mobility weight per phase.')
+  }
+  if (!isNumberArray(file.stability, phaseCount)) {
+    throw new Error('Pattern weight file needs one stability weight per phase.')
+  }
+  for (const name of PATTERN_NAMES) {
+    const tables = file.patterns?.[name]
+    if (!Array.isArray(tables) || tables.length !== phaseCount) {
+      throw new Error(`Pattern weight file needs ${phaseCount} "${name}" tables.`)
+    }
+    for (const table of tables) {
+      for (const [key, weight] of Object.entries(table)) {
+        if (key.length !== PATTERNS[name][0].length || typeof weight !== 'number') {
+          throw new Error(`Invalid "${name}" entry "${key}".`)
+        }
+        patternKeyToIndex(key)
+      }
+    }
+  }
+  return file as PatternWeightFile
+}
+
+const buildPatternTable = (
+  cells: number[],
+  squares: number[],
+  corrections: Record<string, number>,
+) => {
+  const size = 3 ** cells.length
+  const table = new Float64Array(size)
+  for (let index = 0; index < size; index += 1) {
+    let value = 0
+    let rest = index
+    for (const cell of cells) {
+      const state = rest % 3
+      rest = Math.floor(rest / 3)
+      if (state === 0) continue
+      const share = squares[squareClass(cell)] / COVERAGE[cell]
+      value += state === 1 ? share : -share
+    }
+    table[index] = value
+  }
+  for (const [key, weight] of Object.entries(corrections)) {
+    table[patternKeyToIndex(key)] += weight
+  }
+  return table
+}
+
+/**
+ * Evaluator that sums table lookups for every edge, corner 3x3 and diagonal
+ * instance, plus mobility and stable-disc terms, using the weights for the
+ * current phase.
+ */
+export const createPatternEvaluator = (weights: PatternWeightFile): Evaluator => {
+  const tables = Array.from({ length: weights.phaseCount }, (_, phase) =>
+    PATTERN_NAMES.map((name) => ({
+      instances: PATTERNS[name],
+      table: buildPatternTable(
+        PATTERNS[name][0],
+        weights.squares[phase],
+        weights.patterns[name][phase],
+      ),
+    })),
+  )
+
+  return {
+    evaluate: (player, opponent) => {
+      const phase = getPhase(player, opponent, weights.phaseCount)
+      let score = 0
+      for (const { instances, table } of tables[phase]) {
+        for (const cells of instances) {
+          score += table[getPatternIndex(player, opponent, cells)]
+        }
+      }
+      const mobility =
+        popcount(computeMoveMask(player, opponent)) - popcount(computeMoveMask(opponent, player))
+      const stability =
+        popcount(computeStableMask(player, opponent)) - popcount(computeStableMask(opponent, player))
+      return score + mobility * weights.mobility[phase] + stability * weights.stability[phase]
+    },
+  }
+}
+
+export const DEFAULT_PATTERN_WEIGHTS = parsePatternWeights(defaultPatternWeights)
+
+export const patternEvaluator = createPatternEvaluator(DEFAULT_PATTERN_WEIGHTS)
@@ -0,0 +1,204 @@
+import {
+  advancePosition,
+  createInitialPosition,
+  parseMoveList,
+  type Cell,
+  type Disk,
+  type GamePosition,
+  type MoveRecord,
+} from './othello.js'
+import type { RandomSource } from './random.js'
+
+/**
+ * One book line in f5d6 notation from the standard start. `weight` counts
+ * towards every move of the line; `name` labels the position it ends in.
+ */
+export interface OpeningBookLine {
+  moves: string
+  weight: number
+  name?: string
+}
+
+export interface BookMove {
+  move: number
+  weight: number
+}
+
+interface BookNode {
+  /** Continuations in the node's canonical orientation, with summed line weights. */
+  moves: Map<number, number>
+  name?: string
+}
+
+export interface OpeningBook {
+  nodes: Map<string, BookNode>
+}
+
+export const OPENING_BOOK_LINES: OpeningBookLine[] = [
+  { moves: 'f5d6', weight: 1, name: 'Perpendicular' },
+  { moves: 'f5f6', weight: 1, name: 'Diagonal' },
+  { moves: 'f5f4', weight: 1, name: 'Parallel' },
+  { moves: 'f5d6c3d3c4', weight: 4, name: 'Tiger' },
+  { moves: 'f5d6c3d3c4f4c5b3c2', weight: 3, name: 'Buffalo' },
+  { moves: 'f5d6c3d3c4f4f6f3e6e7', weight: 3, name: 'Rose' },
+  { moves: 'f5d6c5f4e3', weight: 3, name: 'Cow' },
+  { moves: 'f5f6e6f4e3', weight: 2, name: 'Rabbit' },
+  { moves: 'f5f6e6f4e3c5c4', weight: 2, name: 'Cat' },
+  { moves: 'f5f6e6f4g5', weight: 2, name: 'Heath' },
+]
+
+// The 8 symmetries of the square as (row, col) maps: rotations, then reflections.
+const SYMMETRIES: Array<(row: number, col: number) => [number, number]> = [
+  (row, col) => [row, col],
+  (row, col) => [col, 7 - row],
+  (row, col) => [7 - row, 7 - col],
+  (row, col) => [7 - col, row],
+  (row, col) => [row, 7 - col],
+  (row, col) => [7 - row, col],
+  (row, col) => [col, row],
+  (row, col) => [7 - col, 7 - row],
+]
+
+const SYMMETRY_MAPS = SYMMETRIES.map((transform) =>
+  Array.from({ length: 64 }, (_, index) => {
+    const [row, col] = transform(Math.floor(index / 8), index % 8)
+    return row * 8 + col
+  }),
+)
+const INVERSE_SYMMETRY_MAPS = SYMMETRY_MAPS.map((map) => {
+  const inverse = new Array<number>(64)
+  map.forEach((target, index) => {
+    inverse[target] = index
+  })
+  return inverse
+})
+
+const encodeBoard = (board: Cell[], map: number[], disk: Disk) => {
+  const cells = new Array<string>(64)
+  board.forEach((cell, index) => {
+    cells[map[index]] = cell ?? '-'
+  })
+  return `${disk}:${cells.join('')}`
+}
+
+/**
+ * Smallest encoding of the position over all 8 symmetries, plus every
+ * symmetry that produces it (several do for symmetric positions).
+ */
+const canonicalize = (board: Cell[], disk: Disk) => {
+  let key = ''
+  let symmetries: number[] = []
+  SYMMETRY_MAPS.forEach((map, symmetry) => {
+    const encoded = encodeBoard(board, map, disk)
+    if (!key || encoded < key) {
+      key = encoded
+      symmetries = [symmetry]
+    } else if (encoded === key) {
+      symmetries.push(symmetry)
+    }
+  })
+  return { key, symmetries }
+}
+
+const getOrCreateNode = (book: OpeningBook, key: string) => {
+  let node = book.nodes.get(key)
+  if (!node) {
+    node = { moves: new Map() }
+    book.nodes.set(key, node)
+  }
+  return node
+}
+
+/** Builds the position-keyed book; throws if a line is not legal from the start. */
+export const createOpeningBook = (lines: OpeningBookLine[]): OpeningBook => {
+  const book: OpeningBook = { nodes: new Map() }
+
+  for (const line of lines) {
+    const parsed = parseMoveList(line.moves)
+    if (!parsed.ok) {
+      throw new Error(`Invalid opening book line "${line.moves}": ${parsed.error}`)
+    }
+    let position: GamePosition = createInitialPosition()
+    for (const record of parsed.moves) {
+      const next = advancePosition(position, record) as GamePosition
+      if (record.index !== null) {
+        const { key, symmetries } = canonicalize(position.board, position.currentDisk)
+        const node = getOrCreateNode(book, key)
+        const move = SYMMETRY_MAPS[symmetries[0]][record.index]
+        node.moves.set(move, (node.moves.get(move) ?? 0) + line.weight)
+      }
+      position = next
+    }
+    if (line.name) {
+      const { key } = canonicalize(position.board, position.currentDisk)
+      getOrCreateNode(book, key).name = line.name
+    }
+  }
+
+  return book
+}
+
+export const DEFAULT_OPENING_BOOK = createOpeningBook(OPENING_BOOK_LINES)
+
+/** Book moves for `disk` in the board's own orientation, heaviest first. */
+export const lookupBookMoves = (
+  board: Cell[],
+  disk: Disk,
+  book: OpeningBook = DEFAULT_OPENING_BOOK,
+): BookMove[] => {
+  const { key, symmetries } = canonicalize(board, disk)
+  const node = book.nodes.get(key)
+  if (!node) return []
+
+  // In symmetric positions each equivalent square gets the book move's weight.
+  const weights = new Map<number, number>()
+  for (const symmetry of symmetries) {
+    for (const [move, weight] of node.moves) {
+      weights.set(INVERSE_SYMMETRY_MAPS[symmetry][move], weight)
+    }
+  }
+  return [...weights]
+    .map(([move, weight]) => ({ move, weight }))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+/**
+ * Picks a book move: the heaviest one (ties, such as symmetric first moves,
+ * broken at random), or with probability `randomness` a weighted random one.
+ */
+export const pickBookMove = (
+  candidates: BookMove[],
+  randomness: number,
+  random: RandomSource = Math.random,
+) => {
+  if (!candidates.length) return null
+  if (randomness <= 0 || random() >= randomness) {
+    const heaviest = candidates.filter((candidate) => candidate.weight === candidates[0].weight)
+    return heaviest[Math.floor(random() * heaviest.length)].move
+  }
+  const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0)
+  let roll = random() * total
+  for (const candidate of candidates) {
+    roll -= candidate.weight
+    if (roll < 0) return candidate.move
+  }
+  return candidates[candidates.length - 1].move
+}
+
+/** Name of the last book position the game passed through, if any. */
+export const identifyOpening = (
+  moves: MoveRecord[],
+  book: OpeningBook = DEFAULT_OPENING_BOOK,
+): string | null => {
+  let position: GamePosition = createInitialPosition()
+  let name: string | null = null
+  for (const record of moves) {
+    const next = advancePosition(position, record)
+    if (!next) break
+    position = next
+    const node = book.nodes.get(canonicalize(position.board, position.currentDisk).key)
+    if (!node) break
+    name = node.name ?? name
+  }
+  return name
+}
@@ -1 +1 @@
-export * from '../../shared/othello'
+export * from '../../shared/othello.js'
@@ -0,0 +1 @@
+export * from '../../shared/protocol.js'
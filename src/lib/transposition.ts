@@ -0,0 +1,126 @@
+import { bitboardIndices, type Bitboard, type Disk } from './othello.js'
+
+/** 64-bit Zobrist key split into two unsigned 32-bit halves, like `Bitboard`. */
+export interface ZobristHash {
+  lo: number
+  hi: number
+}
+
+export type BoundType = 'exact' | 'lower' | 'upper'
+
+export interface TranspositionEntry {
+  hashLo: number
+  hashHi: number
+  depth: number
+  score: number
+  bound: BoundType
+  bestMove: number | null
+}
+
+export interface TranspositionTable {
+  entries: Array<TranspositionEntry | undefined>
+  mask: number
+}
+
+export const DEFAULT_TRANSPOSITION_TABLE_BITS = 18
+
+// Fixed-seed xorshift32 so keys (and therefore search behaviour) are identical across runs.
+const createKeyGenerator = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state ^= state << 13
+    state ^= state >>> 17
+    state ^= state << 5
+    state >>>= 0
+    return state
+  }
+}
+
+const nextKey = createKeyGenerator(0x9e3779b9)
+const createKeyTable = () =>
+  Array.from({ length: 64 }, (): ZobristHash => ({ lo: nextKey(), hi: nextKey() }))
+
+const DISC_KEYS: Record<Disk, ZobristHash[]> = {
+  B: createKeyTable(),
+  W: createKeyTable(),
+}
+// Flipping a disc swaps its colour, which is the XOR of both colour keys for that square.
+const FLIP_KEYS = DISC_KEYS.B.map((key, index) => ({
+  lo: (key.lo ^ DISC_KEYS.W[index].lo) >>> 0,
+  hi: (key.hi ^ DISC_KEYS.W[index].hi) >>> 0,
+}))
+const WHITE_TO_MOVE_KEY: ZobristHash = { lo: nextKey(), hi: nextKey() }
+
+export const computeZobristHash = (
+  black: Bitboard,
+  white: Bitboard,
+  sideToMove: Disk,
+): ZobristHash => {
+  let lo = sideToMove === 'W' ? WHITE_TO_MOVE_KEY.lo : 0
+  let hi = sideToMove === 'W' ? WHITE_TO_MOVE_KEY.hi : 0
+  for (const index of bitboardIndices(black)) {
+    lo ^= DISC_KEYS.B[index].lo
+    hi ^= DISC_KEYS.B[index].hi
+  }
+  for (const index of bitboardIndices(white)) {
+    lo ^= DISC_KEYS.W[index].lo
+    hi ^= DISC_KEYS.W[index].hi
+  }
+  return { lo: lo >>> 0, hi: hi >>> 0 }
+}
+
+/** Hash after `disk` plays `index` flipping `flips`; the side to move passes to the opponent. */
+export const updateZobristHash = (
+  hash: ZobristHash,
+  disk: Disk,
+  index: number,
+  flips: Bitboard,
+): ZobristHash => {
+  let lo = hash.lo ^ DISC_KEYS[disk][index].lo ^ WHITE_TO_MOVE_KEY.lo
+  let hi = hash.hi ^ DISC_KEYS[disk][index].hi ^ WHITE_TO_MOVE_KEY.hi
+  for (const flipped of bitboardIndices(flips)) {
+    lo ^= FLIP_KEYS[flipped].lo
+    hi ^= FLIP_KEYS[flipped].hi
+  }
+  return { lo: lo >>> 0, hi: hi >>> 0 }
+}
+
+export const passZobristHash = (hash: ZobristHash): ZobristHash => ({
+  lo: (hash.lo ^ WHITE_TO_MOVE_KEY.lo) >>> 0,
+  hi: (hash.hi ^ WHITE_TO_MOVE_KEY.hi) >>> 0,
+})
+
+export const createTranspositionTable = (
+  bits = DEFAULT_TRANSPOSITION_TABLE_BITS,
+): TranspositionTable => ({
+  entries: new Array(1 << bits),
+  mask: (1 << bits) - 1,
+})
+
+export const probeTransposition = (
+  table: TranspositionTable,
+  hash: ZobristHash,
+): TranspositionEntry | null => {
+  const entry = table.entries[hash.lo & table.mask]
+  if (!entry || entry.hashLo !== hash.lo || entry.hashHi !== hash.hi) return null
+  return entry
+}
+
+/**
+ * Stores a search result, keeping the deeper entry when two positions share a
+ * slot. Results for the same position always overwrite the older one.
+ */
+export const storeTransposition = (
+  table: TranspositionTable,
+  hash: ZobristHash,
+  depth: number,
+  score: number,
+  bound: BoundType,
+  bestMove: number | null,
+) => {
+  const slot = hash.lo & table.mask
+  const existing = table.entries[slot]
+  const samePosition = existing?.hashLo === hash.lo && existing.hashHi === hash.hi
+  if (existing && !samePosition && existing.depth > depth) return
+  table.entries[slot] = { hashLo: hash.lo, hashHi: hash.hi, depth, score, bound, bestMove }
+}
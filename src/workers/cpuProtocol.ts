@@ -0,0 +1,37 @@
+import type { GameAnalysis, GameAnalysisOptions } from '../lib/analysis'
+import type { CpuMoveOptions, CpuMoveResult, CpuMoveScore } from '../lib/cpuPlayer'
+import type { Cell, Disk, MoveRecord } from '../lib/othello'
+
+/** Options that survive structured cloning (callbacks and evaluator objects stay on the main thread). */
+export type CpuWorkerSearchOptions = Omit<CpuMoveOptions, 'onProgress' | 'customEvaluator' | 'random'>
+export type CpuWorkerAnalysisOptions = Omit<GameAnalysisOptions, 'onProgress'>
+
+export type CpuWorkerRequest =
+  | {
+      type: 'search'
+      id: number
+      board: Cell[]
+      disk: Disk
+      options: CpuWorkerSearchOptions
+    }
+  | {
+      type: 'score'
+      id: number
+      board: Cell[]
+      disk: Disk
+      options: CpuWorkerSearchOptions
+    }
+  | {
+      type: 'analyze'
+      id: number
+      moves: MoveRecord[]
+      options: CpuWorkerAnalysisOptions
+    }
+
+export type CpuWorkerResponse =
+  | { type: 'progress'; id: number; progress: CpuMoveResult }
+  | { type: 'result'; id: number; result: CpuMoveResult }
+  | { type: 'scores'; id: number; scores: CpuMoveScore[] }
+  | { type: 'analysis-progress'; id: number; completed: number; total: number }
+  | { type: 'analysis'; id: number; analysis: GameAnalysis }
+  | { type: 'error'; id: number; message: string }
@@ -0,0 +1,39 @@
+import { analyzeGame } from '../lib/analysis'
+import { chooseCpuMove, scoreCpuMoves } from '../lib/cpuPlayer'
+import type { CpuWorkerRequest, CpuWorkerResponse } from './cpuProtocol'
+
+const post = (message: CpuWorkerResponse) => {
+  self.postMessage(message)
+}
+
+// A search runs to completion once started; the main thread cancels by terminating the worker.
+self.onmessage = (event: MessageEvent<CpuWorkerRequest>) => {
+  const request = event.data
+  const { id } = request
+  try {
+    if (request.type === 'score') {
+      post({ type: 'scores', id, scores: scoreCpuMoves(request.board, request.disk, request.options) })
+      return
+    }
+    if (request.type === 'analyze') {
+      const analysis = analyzeGame(request.moves, {
+        ...request.options,
+        onProgress: (completed, total) =>
+          post({ type: 'analysis-progress', id, completed, total }),
+      })
+      post({ type: 'analysis', id, analysis })
+      return
+    }
+    const result = chooseCpuMove(request.board, request.disk, {
+      ...request.options,
+      onProgress: (progress) => post({ type: 'progress', id, progress }),
+    })
+    post({ type: 'result', id, result })
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : 'CPU search failed.',
+    })
+  }
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { createAccountTokenStore, type TokenStorage } from '../src/lib/accountToken'
+
+const createMemoryStorage = (entries: Record<string, string> = {}) => {
+  const values = new Map(Object.entries(entries))
+  const storage: TokenStorage = {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value)
+    },
+    removeItem: (key) => {
+      values.delete(key)
+    },
+  }
+  return { storage, values }
+}
+
+const TOKEN_KEY = 'othello:match-account-token'
+
+describe('createAccountTokenStore', () => {
+  it('keeps the saved token when an adopted transfer code is rejected', () => {
+    const { storage, values } = createMemoryStorage({ [TOKEN_KEY]: 'mine.sig' })
+    const store = createAccountTokenStore(storage)
+    store.adopt('typo.sig')
+    assert.equal(store.current(), 'typo.sig')
+    assert.equal(values.get(TOKEN_KEY), 'mine.sig')
+
+    assert.equal(store.reject(), 'adopted')
+    assert.equal(store.current(), 'mine.sig')
+    assert.equal(values.get(TOKEN_KEY), 'mine.sig')
+  })
+
+  it('saves an adopted transfer code once a hello confirms it', () => {
+    const { storage, values } = createMemoryStorage({ [TOKEN_KEY]: 'mine.sig', 'othello:match-client-id': 'old' })
+    const store = createAccountTokenStore(storage)
+    store.adopt('other.sig')
+    store.confirm('other.sig')
+    assert.equal(store.current(), 'other.sig')
+    assert.equal(values.get(TOKEN_KEY), 'other.sig')
+    assert.equal(values.has('othello:match-client-id'), false)
+  })
+
+  it('forgets a saved token the server rejects, so the next hello opens an account', () => {
+    const { storage, values } = createMemoryStorage({ [TOKEN_KEY]: 'stale.sig' })
+    const store = createAccountTokenStore(storage)
+    assert.equal(store.reject(), 'saved')
+    assert.equal(store.current(), null)
+    assert.equal(values.has(TOKEN_KEY), false)
+  })
+})
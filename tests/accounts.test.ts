@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  createAccountToken,
+  createGuestNickname,
+  createTokenSecret,
+  verifyAccountToken,
+} from '../server/accounts'
+import { createSeededRandom } from '../shared/random'
+
+describe('account tokens', () => {
+  const secret = createTokenSecret()
+  const accountId = '4f9c2b7e-0d1a-4c3e-9b8f-2a6d5e7c1b30'
+
+  it('verifies a token back to the account it was issued for', () => {
+    assert.equal(verifyAccountToken(secret, createAccountToken(secret, accountId)), accountId)
+  })
+
+  it('rejects tokens signed with another secret or edited after issue', () => {
+    const token = createAccountToken(secret, accountId)
+    assert.equal(verifyAccountToken(createTokenSecret(), token), null)
+    assert.equal(verifyAccountToken(secret, token.replace(accountId, 'someone-else')), null)
+    assert.equal(verifyAccountToken(secret, `${token}x`), null)
+    assert.equal(verifyAccountToken(secret, token.slice(0, -1)), null)
+  })
+
+  it('rejects strings that are not tokens at all', () => {
+    for (const token of ['', '.', accountId, `.${createAccountToken(secret, '')}`]) {
+      assert.equal(verifyAccountToken(secret, token), null)
+    }
+  })
+})
+
+describe('createGuestNickname', () => {
+  it('draws a short guest name from the given random source', () => {
+    const name = createGuestNickname(createSeededRandom(1))
+    assert.match(name, /^Guest-[A-Z2-9]{4}$/)
+    assert.equal(createGuestNickname(createSeededRandom(1)), name)
+  })
+})
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { chargeMove, clockDeadline, createClocks } from '../server/clock'
+import type { TimeControl } from '../shared/protocol'
+
+const FISCHER: TimeControl = { kind: 'fischer', initialMs: 60000, incrementMs: 2000 }
+const BYOYOMI: TimeControl = { kind: 'byoyomi', initialMs: 60000, periodMs: 10000 }
+
+describe('chess clock', () => {
+  it('gives both sides the main time', () => {
+    assert.deepEqual(createClocks(BYOYOMI), { B: 60000, W: 60000 })
+  })
+
+  it('adds the Fischer increment after each move', () => {
+    assert.equal(chargeMove(FISCHER, 60000, 5000), 57000)
+    assert.equal(chargeMove(FISCHER, 1000, 1000), 2000)
+    assert.equal(clockDeadline(FISCHER, 57000, 1000), 58000)
+  })
+
+  it('runs byo-yomi periods only once main time is spent', () => {
+    assert.equal(clockDeadline(BYOYOMI, 60000, 0), 70000)
+    assert.equal(chargeMove(BYOYOMI, 60000, 5000), 55000)
+    // Overrunning main time into the period leaves none, but the next turn gets a full period again.
+    assert.equal(chargeMove(BYOYOMI, 3000, 8000), 0)
+    assert.equal(clockDeadline(BYOYOMI, 0, 20000), 30000)
+  })
+})
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { after, describe, it } from 'node:test'
+import { connectClient, startServer, stopServer, type TestServer } from '../matchServer'
+
+const F5 = 37
+
+// Run by `npm run test:dist` after `npm run server:build`, against the build that `server:start` runs.
+describe('compiled match server', () => {
+  let server: TestServer | undefined
+
+  after(async () => {
+    await stopServer(server)
+  })
+
+  it('starts from server-dist under plain node and plays a CPU game', async () => {
+    server = await startServer({}, ['server-dist/server/index.js'])
+    const client = await connectClient(server.port)
+    try {
+      client.send('bot:create', { difficulty: 'easy', disk: 'B' })
+      await client.next('match:start')
+      client.send('move', { index: F5 })
+      const reply = await client.next('match:update', (payload) => payload.state.moves.length === 2)
+      assert.equal(reply.state.moves[1].disk, 'W')
+    } finally {
+      await client.close()
+    }
+  })
+})
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { chooseCpuMove, decidedMargin, scoreCpuMoves, type CpuDifficulty } from '../src/lib/cpuPlayer'
+import {
+  applyMove,
+  computeValidMoves,
+  countDisks,
+  createInitialBoard,
+  nextDisk,
+  type Cell,
+  type Disk,
+} from '../shared/othello'
+import { createSeededRandom, type RandomSource } from '../shared/random'
+
+// Final disc difference for `disk`, empty squares going to the winner (the solver's convention).
+const finalScore = (board: Cell[], disk: Disk) => {
+  const scores = countDisks(board)
+  const diff = scores[disk] - scores[nextDisk(disk)]
+  const empties = 64 - scores.B - scores.W
+  return diff > 0 ? diff + empties : diff < 0 ? diff - empties : 0
+}
+
+// Plain minimax over every line, as the reference for the exact solver.
+const bruteForce = (board: Cell[], disk: Disk): number => {
+  const moves = computeValidMoves(board, disk)
+  if (!moves.size) {
+    if (!computeValidMoves(board, nextDisk(disk)).size) return finalScore(board, disk)
+    return -bruteForce(board, nextDisk(disk))
+  }
+  let best = -Infinity
+  for (const [index, flips] of moves) {
+    best = Math.max(best, -bruteForce(applyMove(board, index, disk, flips), nextDisk(disk)))
+  }
+  return best
+}
+
+/** Plays random moves from the start until `empties` squares are left with `disk` able to move. */
+const randomEndgame = (random: RandomSource, empties: number) => {
+  for (;;) {
+    let board = createInitialBoard()
+    let disk: Disk = 'B'
+    while (board.filter((cell) => cell === null).length > empties) {
+      const moves = [...computeValidMoves(board, disk)]
+      if (!moves.length) {
+        if (!computeValidMoves(board, nextDisk(disk)).size) break
+        disk = nextDisk(disk)
+        continue
+      }
+      const [index, flips] = moves[Math.floor(random() * moves.length)]
+      board = applyMove(board, index, disk, flips)
+      disk = nextDisk(disk)
+    }
+    const left = board.filter((cell) => cell === null).length
+    if (left === empties && computeValidMoves(board, disk).size) return { board, disk }
+  }
+}
+
+const fromRows = (rows: string[]): Cell[] =>
+  rows.join('').split('').map((cell) => (cell === 'B' || cell === 'W' ? cell : null))
+
+// Black's c1 flips b1 and b2 and wipes White out; c3 only takes b2.
+const WIPEOUT_BOARD = fromRows([
+  'BW......',
+  '.W......',
+  'B.......',
+  '........',
+  '........',
+  '........',
+  '........',
+  '........',
+])
+const WIPEOUT_MOVE = 2
+
+describe('chooseCpuMove', () => {
+  for (const difficulty of ['normal', 'hard', 'saikyo'] as CpuDifficulty[]) {
+    it(`takes the wipeout at ${difficulty}`, () => {
+      const result = chooseCpuMove(WIPEOUT_BOARD, 'B', { difficulty, seed: 1 })
+      assert.equal(result.move, WIPEOUT_MOVE)
+    })
+  }
+
+  it('completes depth 1 under a timed search even when the depth cap is below it', () => {
+    const board = createInitialBoard()
+    const result = chooseCpuMove(board, 'B', {
+      difficulty: 'hard',
+      maxDepthOverride: -1,
+      timeLimitMs: 1,
+      useOpeningBook: false,
+    })
+    assert.equal(result.depth, 1)
+    assert.ok(computeValidMoves(board, 'B').has(result.move as number))
+  })
+
+  it('finds forced wins: endgame choices match a brute-force solve', () => {
+    const random = createSeededRandom(20)
+    for (let sample = 0; sample < 6; sample += 1) {
+      const { board, disk } = randomEndgame(random, 8)
+      const best = bruteForce(board, disk)
+      const result = chooseCpuMove(board, disk, { difficulty: 'saikyo', seed: sample })
+      assert.ok(result.exact)
+      assert.equal(result.score, best)
+
+      assert.notEqual(result.move, null)
+      const flips = computeValidMoves(board, disk).get(result.move as number)
+      assert.ok(flips)
+      const after = applyMove(board, result.move as number, disk, flips)
+      assert.equal(-bruteForce(after, nextDisk(disk)), best)
+    }
+  })
+
+  it('passes when there is no legal move', () => {
+    const board: Cell[] = new Array(64).fill(null)
+    board[0] = 'B'
+    board[63] = 'W'
+    assert.equal(chooseCpuMove(board, 'B', { difficulty: 'normal' }).move, null)
+  })
+
+  it('repeats its choices for the same seed', () => {
+    const random = createSeededRandom(7)
+    for (let sample = 0; sample < 5; sample += 1) {
+      const { board, disk } = randomEndgame(random, 40)
+      for (const options of [
+        { difficulty: 'easy' as const },
+        { difficulty: 'normal' as const, personality: 'random' as const },
+      ]) {
+        const first = chooseCpuMove(board, disk, { ...options, seed: sample })
+        const second = chooseCpuMove(board, disk, { ...options, seed: sample })
+        assert.equal(first.move, second.move)
+        assert.equal(first.score, second.score)
+      }
+    }
+  })
+})
+
+describe('scoreCpuMoves', () => {
+  it('scores every endgame move exactly, best first', () => {
+    const { board, disk } = randomEndgame(createSeededRandom(3), 7)
+    const scores = scoreCpuMoves(board, disk, { difficulty: 'normal', endgameEmptiesOverride: 10 })
+    const moves = computeValidMoves(board, disk)
+    assert.equal(scores.length, moves.size)
+    for (const { move, score, exact } of scores) {
+      assert.ok(exact)
+      const after = applyMove(board, move, disk, moves.get(move) as number[])
+      assert.equal(score, -bruteForce(after, nextDisk(disk)))
+    }
+    assert.deepEqual(
+      scores.map(({ score }) => score),
+      scores.map(({ score }) => score).sort((a, b) => b - a),
+    )
+  })
+
+  it('reports a game the heuristic search sees end as its final disc margin', () => {
+    const board: Cell[] = Array(64).fill(null)
+    board[27] = 'B'
+    board[28] = 'W'
+    const [wipeout] = scoreCpuMoves(board, 'B', { difficulty: 'normal', endgameEmptiesOverride: 0 })
+    assert.equal(wipeout.move, 29)
+    assert.equal(wipeout.exact, false)
+    // Three black discs, and the 61 empty squares go to the winner.
+    assert.equal(decidedMargin(wipeout.score), 64)
+    assert.equal(decidedMargin(-wipeout.score), -64)
+    assert.equal(decidedMargin(120), null)
+  })
+})
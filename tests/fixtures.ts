@@ -0,0 +1,12 @@
+/**
+ * A complete game in which White is shut out for a ply near the end, so the
+ * record has an implicit pass. Black wins 48-14 with two squares left empty.
+ */
+export const PASS_GAME = {
+  moves:
+    'f5f4c3e6f6g4h4h3h2g6e7d3h6e8c2c5d6c4b4e3f7h7f3h5h8f8g7b3b5e2a4b6f1b2a3c6d8e1b7a5g8g1c7a7d1c8a2g5d7a6a8f2g2c1b8b1g3d2',
+  /** Plies including the pass. */
+  plies: 59,
+  passPly: 57,
+  scores: { B: 48, W: 14 },
+}
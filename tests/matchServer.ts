@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict'
+import { spawn, type ChildProcess } from 'node:child_process'
+import { once } from 'node:events'
+import { WebSocket } from 'ws'
+import {
+  PROTOCOL_VERSION,
+  type ClientMessageType,
+  type ClientPayloads,
+  type ServerMessageType,
+  type ServerPayloads,
+} from '../shared/protocol'
+
+const MESSAGE_TIMEOUT_MS = 5000
+const STARTUP_TIMEOUT_MS = 20000
+
+interface ServerFrame {
+  type: string
+  payload: unknown
+}
+
+export interface TestServer {
+  port: number
+  process: ChildProcess
+}
+
+/**
+ * Starts the server on an ephemeral port and resolves once it is listening.
+ * Runs `server/index.ts` through tsx unless other node arguments are given.
+ */
+export const startServer = async (
+  env: Record<string, string> = {},
+  nodeArgs = ['--import', 'tsx', 'server/index.ts'],
+): Promise<TestServer> => {
+  const child = spawn(process.execPath, nodeArgs, {
+    env: {
+      ...process.env,
+      MATCH_SERVER_PORT: '0',
+      MATCH_RANDOM_SEED: '1',
+      MATCH_BOT_MOVE_DELAY_MS: '0',
+      MATCH_STORAGE: 'memory',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+  let output = ''
+  child.stderr?.on('data', (chunk) => {
+    output += chunk
+  })
+
+  const port = await new Promise<number>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`Server did not start in time.\n${output}`))
+    }, STARTUP_TIMEOUT_MS)
+    child.stdout?.on('data', (chunk) => {
+      output += chunk
+      const match = /listening on port (\d+)/.exec(output)
+      if (match) {
+        clearTimeout(timer)
+        resolve(Number(match[1]))
+      }
+    })
+    child.once('exit', (code) => {
+      clearTimeout(timer)
+      reject(new Error(`Server exited with code ${code}.\n${output}`))
+    })
+  })
+  return { port, process: child }
+}
+
+export const stopServer = async (server: TestServer | undefined) => {
+  if (!server || server.process.exitCode !== null) return
+  const exited = once(server.process, 'exit')
+  server.process.kill()
+  await exited
+}
+
+/**
+ * A WebSocket client that queues everything the server sends, so a test can
+ * wait for a message type without racing the ones that arrived before it.
+ */
+export const openClient = async (port: number) => {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}/`)
+  const inbox: ServerFrame[] = []
+  const waiters = new Set<() => void>()
+
+  socket.on('message', (raw) => {
+    inbox.push(JSON.parse(raw.toString()) as ServerFrame)
+    waiters.forEach((wake) => wake())
+  })
+
+  /** Resolves with the payload of the first queued (or next) `type` message that matches. */
+  const next = <T extends ServerMessageType>(
+    type: T,
+    predicate: (payload: ServerPayloads[T]) => boolean = () => true,
+  ) =>
+    new Promise<ServerPayloads[T]>((resolve, reject) => {
+      const take = () => {
+        const index = inbox.findIndex(
+          (message) => message.type === type && predicate(message.payload as ServerPayloads[T]),
+        )
+        if (index === -1) return false
+        waiters.delete(wake)
+        clearTimeout(timer)
+        resolve(inbox.splice(index, 1)[0].payload as ServerPayloads[T])
+        return true
+      }
+      const wake = () => {
+        take()
+      }
+      const timer = setTimeout(() => {
+        waiters.delete(wake)
+        const seen = inbox.map((message) => message.type).join(', ') || 'nothing'
+        reject(new Error(`Timed out waiting for ${type} (received: ${seen}).`))
+      }, MESSAGE_TIMEOUT_MS)
+      if (!take()) waiters.add(wake)
+    })
+
+  await once(socket, 'open')
+
+  return {
+    socket,
+    inbox,
+    next,
+    send: <T extends ClientMessageType>(type: T, payload: ClientPayloads[T]) => {
+      socket.send(JSON.stringify({ type, payload }))
+    },
+    /** Sends anything at all, to exercise the server's validation. */
+    sendRaw: (data: string) => {
+      socket.send(data)
+    },
+    close: async () => {
+      if (socket.readyState === WebSocket.CLOSED) return
+      const closed = once(socket, 'close')
+      socket.close()
+      await closed
+    },
+  }
+}
+
+/** Opens a client and completes the hello handshake, signing in with `token`'s account if given. */
+export const connectClient = async (port: number, token?: string) => {
+  const client = await openClient(port)
+  client.send('hello', { protocolVersion: PROTOCOL_VERSION, token })
+  const hello = await client.next('hello')
+  assert.equal(hello.protocolVersion, PROTOCOL_VERSION)
+  return { ...client, id: hello.clientId, nickname: hello.nickname, token: hello.token }
+}
+
+export type TestClient = Awaited<ReturnType<typeof connectClient>>
+
+export const closeAll = (clients: TestClient[]) => Promise.all(clients.map((client) => client.close()))
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  advancePosition,
+  applyMove,
+  boardToBitboards,
+  computeMoveMask,
+  computeStableDiscs,
+  computeValidMoves,
+  coordinateToIndex,
+  countDisks,
+  createInitialBoard,
+  createInitialPosition,
+  nextDisk,
+  parseMoveList,
+  popcount,
+  replayMoves,
+  type Cell,
+  type Disk,
+} from '../shared/othello'
+import { PASS_GAME } from './fixtures'
+
+// Leaf counts from the initial position; passes count as a ply, finished games stop early.
+const PERFT_COUNTS = [1, 4, 12, 56, 244, 1396, 8200, 55092]
+
+const square = (coordinate: string) => {
+  const index = coordinateToIndex(coordinate)
+  assert.notEqual(index, null, coordinate)
+  return index as number
+}
+
+const perft = (board: Cell[], disk: Disk, depth: number, passed = false): number => {
+  if (depth === 0) return 1
+  const moves = computeValidMoves(board, disk)
+  const bitboards = boardToBitboards(board)
+  assert.equal(popcount(computeMoveMask(bitboards[disk], bitboards[nextDisk(disk)])), moves.size)
+
+  if (!moves.size) return passed ? 1 : perft(board, nextDisk(disk), depth - 1, true)
+  let leaves = 0
+  for (const [index, flips] of moves) {
+    leaves += perft(applyMove(board, index, disk, flips), nextDisk(disk), depth - 1)
+  }
+  return leaves
+}
+
+describe('computeValidMoves', () => {
+  it('finds the four opening moves for black', () => {
+    const moves = computeValidMoves(createInitialBoard(), 'B')
+    assert.deepEqual(
+      [...moves.keys()].sort((a, b) => a - b),
+      ['d3', 'c4', 'f5', 'e6'].map(square).sort((a, b) => a - b),
+    )
+    assert.deepEqual(moves.get(square('f5')), [square('e5')])
+  })
+
+  it('matches the known perft counts and the bitboard move generator', () => {
+    PERFT_COUNTS.forEach((expected, depth) => {
+      assert.equal(perft(createInitialBoard(), 'B', depth), expected, `perft(${depth})`)
+    })
+  })
+})
+
+describe('advancePosition', () => {
+  it('rejects a move for the side not to move', () => {
+    const position = createInitialPosition()
+    assert.equal(advancePosition(position, { disk: 'W', index: square('f5') }), null)
+  })
+
+  it('rejects a pass while a move is available', () => {
+    assert.equal(advancePosition(createInitialPosition(), { disk: 'B', index: null }), null)
+  })
+
+  it('rejects an illegal square', () => {
+    assert.equal(advancePosition(createInitialPosition(), { disk: 'B', index: 0 }), null)
+  })
+
+  it('accepts a pass only when the side to move is stuck', () => {
+    const parsed = parseMoveList(PASS_GAME.moves)
+    assert.ok(parsed.ok)
+    const passIndex = parsed.moves.findIndex((record) => record.index === null)
+    assert.equal(passIndex, PASS_GAME.passPly)
+
+    const beforePass = replayMoves(parsed.moves.slice(0, passIndex))
+    assert.ok(beforePass)
+    const passing = beforePass.currentDisk
+    assert.equal(computeValidMoves(beforePass.board, passing).size, 0)
+    const afterPass = advancePosition(beforePass, { disk: passing, index: null })
+    assert.ok(afterPass)
+    assert.equal(afterPass.currentDisk, nextDisk(passing))
+    assert.equal(afterPass.board, beforePass.board)
+  })
+
+  it('rejects a pass once neither side can move', () => {
+    const parsed = parseMoveList(PASS_GAME.moves)
+    assert.ok(parsed.ok)
+    const final = replayMoves(parsed.moves)
+    assert.ok(final)
+    assert.deepEqual(countDisks(final.board), PASS_GAME.scores)
+    for (const disk of ['B', 'W'] as Disk[]) {
+      assert.equal(computeValidMoves(final.board, disk).size, 0)
+      assert.equal(advancePosition({ ...final, currentDisk: disk }, { disk, index: null }), null)
+    }
+  })
+})
+
+describe('parseMoveList', () => {
+  it('inserts the pass a record leaves implicit', () => {
+    const parsed = parseMoveList(PASS_GAME.moves)
+    assert.ok(parsed.ok)
+    assert.equal(parsed.moves.length, PASS_GAME.plies)
+    const pass = parsed.moves[PASS_GAME.passPly]
+    assert.equal(pass.index, null)
+    assert.equal(parsed.moves[PASS_GAME.passPly + 1].disk, nextDisk(pass.disk))
+  })
+
+  it('reports moves played after the game ended', () => {
+    const parsed = parseMoveList(`${PASS_GAME.moves}a1`)
+    assert.ok(!parsed.ok)
+    assert.match(parsed.error, /after the game ended/)
+  })
+
+  it('reports an illegal move with its ply number', () => {
+    const parsed = parseMoveList('f5a1')
+    assert.ok(!parsed.ok)
+    assert.match(parsed.error, /^Move 2 \(a1\) is not legal for White/)
+  })
+})
+
+describe('computeStableDiscs', () => {
+  it('finds no stable discs without an occupied corner', () => {
+    assert.equal(computeStableDiscs(createInitialBoard()).size, 0)
+  })
+
+  it('treats every disc of a full board as stable', () => {
+    const board: Cell[] = Array.from({ length: 64 }, (_, index) => (index % 3 ? 'B' : 'W'))
+    assert.equal(computeStableDiscs(board).size, 64)
+  })
+
+  it('keeps discs anchored to a corner along a filled edge', () => {
+    const board: Cell[] = new Array(64).fill(null)
+    board[0] = 'B'
+    board[1] = 'B'
+    board[2] = 'W'
+    board[9] = 'W'
+    const stable = computeStableDiscs(board)
+    assert.ok(stable.has(0))
+    assert.ok(stable.has(1))
+    assert.ok(!stable.has(2))
+    assert.ok(!stable.has(9))
+  })
+})
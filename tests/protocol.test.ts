@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { countDisks, createInitialBoard } from '../shared/othello'
+import {
+  encodeMessage,
+  MAX_NICKNAME_LENGTH,
+  normalizeNickname,
+  parseClientMessage,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  type MatchStatePayload,
+} from '../shared/protocol'
+
+const board = createInitialBoard()
+const STATE: MatchStatePayload = {
+  matchKey: 'ABC234',
+  board,
+  currentDisk: 'W',
+  lastMove: 37,
+  moves: [{ disk: 'B', index: 37 }],
+  scores: countDisks(board),
+  spectators: 0,
+  statusMessage: 'White to move.',
+  winner: null,
+  turnDeadline: 1700000000000,
+  timeControl: null,
+  clocks: null,
+  names: { B: 'Hana', W: 'CPU (normal)' },
+  ranked: false,
+  ratings: { B: 1500, W: null },
+  bot: { disk: 'W', difficulty: 'normal', seed: 42 },
+}
+
+describe('parseClientMessage', () => {
+  it('accepts every well-formed client message', () => {
+    const hello = parseClientMessage(
+      encodeMessage({ type: 'hello', payload: { protocolVersion: PROTOCOL_VERSION, token: 'abc.sig' } }),
+    )
+    assert.deepEqual(hello, {
+      ok: true,
+      message: { type: 'hello', payload: { protocolVersion: PROTOCOL_VERSION, token: 'abc.sig' } },
+    })
+    assert.deepEqual(parseClientMessage('{"type":"leave"}'), {
+      ok: true,
+      message: { type: 'leave', payload: {} },
+    })
+    assert.deepEqual(parseClientMessage('{"type":"move","payload":{"index":63}}'), {
+      ok: true,
+      message: { type: 'move', payload: { index: 63 } },
+    })
+  })
+
+  it('names what is wrong with a rejected frame', () => {
+    assert.deepEqual(parseClientMessage('{'), { ok: false, error: 'Malformed message.' })
+    assert.deepEqual(parseClientMessage('[]'), { ok: false, error: 'Malformed message.' })
+    assert.deepEqual(parseClientMessage('{"type":"resign"}'), {
+      ok: false,
+      error: 'Unknown message type: resign',
+    })
+    for (const payload of [{}, { index: 64 }, { index: 1.5 }, { index: '3' }]) {
+      assert.deepEqual(parseClientMessage(JSON.stringify({ type: 'move', payload })), {
+        ok: false,
+        error: 'Invalid payload for move.',
+      })
+    }
+    assert.equal(parseClientMessage('{"type":"key:join","payload":{"matchKey":""}}').ok, false)
+    assert.equal(parseClientMessage('{"type":"bot:create","payload":{"disk":"X"}}').ok, false)
+    assert.equal(parseClientMessage('{"type":"hello","payload":{}}').ok, false)
+    for (const timeControl of [
+      { kind: 'fischer', initialMs: 0, incrementMs: 5000 },
+      { kind: 'fischer', initialMs: 60000.5, incrementMs: 0 },
+      { kind: 'byoyomi', initialMs: 60000, periodMs: 0 },
+      { kind: 'sudden-death', initialMs: 60000 },
+    ]) {
+      assert.equal(parseClientMessage(JSON.stringify({ type: 'key:create', payload: { timeControl } })).ok, false)
+    }
+    assert.equal(parseClientMessage('{"type":"profile:update","payload":{"nickname":" \\n "}}').ok, false)
+  })
+
+  it('accepts both kinds of time control on new key rooms', () => {
+    for (const timeControl of [
+      { kind: 'fischer', initialMs: 300000, incrementMs: 5000 },
+      { kind: 'byoyomi', initialMs: 0, periodMs: 30000 },
+    ] as const) {
+      const message = { type: 'key:create', payload: { ranked: true, timeControl } } as const
+      assert.deepEqual(parseClientMessage(encodeMessage(message)), { ok: true, message })
+    }
+  })
+
+  it('normalizes nicknames on profile updates', () => {
+    assert.deepEqual(parseClientMessage('{"type":"profile:update","payload":{"nickname":"  Hana\\t "}}'), {
+      ok: true,
+      message: { type: 'profile:update', payload: { nickname: 'Hana' } },
+    })
+  })
+
+  it('does not treat inherited object keys as message types', () => {
+    assert.equal(parseClientMessage('{"type":"toString"}').ok, false)
+  })
+})
+
+describe('parseServerMessage', () => {
+  it('round-trips match states', () => {
+    for (const message of [
+      { type: 'match:update', payload: { state: STATE } },
+      { type: 'match:end', payload: { reason: 'timeout', state: STATE } },
+      { type: 'match:start', payload: { youAre: 'spectator', matchKey: STATE.matchKey, state: STATE } },
+    ] as const) {
+      assert.deepEqual(parseServerMessage(encodeMessage(message)), { ok: true, message })
+    }
+  })
+
+  it('rejects states that do not describe a game', () => {
+    const broken: unknown[] = [
+      { ...STATE, board: board.slice(1) },
+      { ...STATE, currentDisk: 'X' },
+      { ...STATE, moves: [{ disk: 'B', index: 99 }] },
+      { ...STATE, winner: 'nobody' },
+      { ...STATE, bot: { disk: 'W', difficulty: 'godlike', seed: 1 } },
+      { ...STATE, names: { B: 'Hana' } },
+      { ...STATE, ratings: { B: '1500', W: null } },
+      { ...STATE, timeControl: { kind: 'fischer', initialMs: 60000, incrementMs: 0 }, clocks: { B: -1, W: 0 } },
+    ]
+    for (const state of broken) {
+      assert.equal(parseServerMessage(JSON.stringify({ type: 'match:update', payload: { state } })).ok, false)
+    }
+  })
+
+  it('requires a colour for players but not for spectators', () => {
+    const player = { type: 'match:start', payload: { youAre: 'player', matchKey: 'ABC234', state: STATE } }
+    assert.equal(parseServerMessage(JSON.stringify(player)).ok, false)
+    assert.equal(
+      parseServerMessage(JSON.stringify({ ...player, payload: { ...player.payload, yourDisk: 'B' } })).ok,
+      true,
+    )
+  })
+
+  it('carries rating changes on the end of a ranked game', () => {
+    const state = { ...STATE, ranked: true, ratings: { B: 1516, W: 1484 } }
+    const message = {
+      type: 'match:end',
+      payload: { reason: 'completed', state, ratingChanges: { B: 16, W: -16 } },
+    } as const
+    assert.deepEqual(parseServerMessage(encodeMessage(message)), { ok: true, message })
+    const broken = { ...message, payload: { ...message.payload, ratingChanges: { B: 16 } } }
+    assert.equal(parseServerMessage(JSON.stringify(broken)).ok, false)
+  })
+
+  it('keeps the protocol-mismatch details on errors', () => {
+    const message = {
+      type: 'error',
+      payload: { message: 'Version mismatch', code: 'protocol-mismatch', protocolVersion: 2 },
+    } as const
+    assert.deepEqual(parseServerMessage(encodeMessage(message)), { ok: true, message })
+  })
+})
+
+describe('normalizeNickname', () => {
+  it('trims, drops control characters and caps the length', () => {
+    assert.equal(normalizeNickname('  Hana  '), 'Hana')
+    assert.equal(normalizeNickname('Ha\u0000na\u007f'), 'Hana')
+    assert.equal(normalizeNickname('オセロ名人 '), 'オセロ名人')
+    assert.equal(normalizeNickname('x'.repeat(MAX_NICKNAME_LENGTH + 5)), 'x'.repeat(MAX_NICKNAME_LENGTH))
+  })
+
+  it('counts characters, not UTF-16 units, towards the cap', () => {
+    const nickname = normalizeNickname('🀄'.repeat(MAX_NICKNAME_LENGTH + 1))
+    assert.equal(Array.from(nickname ?? '').length, MAX_NICKNAME_LENGTH)
+  })
+
+  it('returns null when nothing is left', () => {
+    assert.equal(normalizeNickname(''), null)
+    assert.equal(normalizeNickname(' \t\n '), null)
+  })
+})
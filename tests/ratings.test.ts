@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { INITIAL_RATING, rateGame, ratingWindow } from '../server/ratings'
+import { expectedScore } from '../shared/elo'
+
+describe('rateGame', () => {
+  it('moves equal ratings by half the K-factor', () => {
+    const even = { B: INITIAL_RATING, W: INITIAL_RATING }
+    assert.deepEqual(rateGame(even, 'B'), { B: 16, W: -16 })
+    assert.deepEqual(rateGame(even, 'W'), { B: -16, W: 16 })
+    assert.deepEqual(rateGame(even, 'draw'), { B: 0, W: 0 })
+  })
+
+  it('rewards an upset more than an expected win', () => {
+    const ratings = { B: 1300, W: 1700 }
+    const upset = rateGame(ratings, 'B')
+    const expected = rateGame(ratings, 'W')
+    assert.ok(upset.B > 16 && expected.W < 16)
+    assert.equal(upset.B + upset.W, 0)
+    assert.ok(rateGame(ratings, 'draw').B > 0)
+  })
+
+  it('expects the stronger side to score more', () => {
+    assert.equal(expectedScore(1500, 1500), 0.5)
+    assert.ok(Math.abs(expectedScore(1900, 1500) - 10 / 11) < 1e-12)
+    assert.ok(Math.abs(expectedScore(1500, 1900) + expectedScore(1900, 1500) - 1) < 1e-12)
+  })
+})
+
+describe('ratingWindow', () => {
+  it('starts at the base width and widens with the wait', () => {
+    assert.equal(ratingWindow(0, 100, 10), 100)
+    assert.equal(ratingWindow(30000, 100, 10), 400)
+    assert.equal(ratingWindow(-5000, 100, 10), 100)
+  })
+})
@@ -0,0 +1,585 @@
+import assert from 'node:assert/strict'
+import { once } from 'node:events'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { setTimeout as delay } from 'node:timers/promises'
+import { after, before, describe, it } from 'node:test'
+import type { ServerSnapshot } from '../server/storage'
+import { parseMoveList, type Disk } from '../shared/othello'
+import { PROTOCOL_VERSION, type ServerPayloads, type TimeControl } from '../shared/protocol'
+import { PASS_GAME } from './fixtures'
+import {
+  closeAll,
+  connectClient,
+  openClient,
+  startServer,
+  stopServer,
+  type TestClient,
+  type TestServer,
+} from './matchServer'
+
+/** Opens a key match: the host plays Black, the guest White. */
+const startKeyMatch = async (port: number, ranked?: boolean, timeControl?: TimeControl) => {
+  const host = await connectClient(port)
+  const guest = await connectClient(port)
+  host.send('key:create', { ranked, timeControl })
+  const waiting = await host.next('match:waiting')
+  const matchKey = waiting.matchKey
+  guest.send('key:join', { matchKey })
+  const [hostStart, guestStart] = await Promise.all([host.next('match:start'), guest.next('match:start')])
+  assert.equal(hostStart.yourDisk, 'B')
+  assert.equal(guestStart.yourDisk, 'W')
+  return { host, guest, matchKey }
+}
+
+const F5 = 37
+const D6 = 43
+
+describe('match server', () => {
+  let server: TestServer | undefined
+
+  before(async () => {
+    server = await startServer({ MATCH_DISCONNECT_GRACE_MS: '1000' })
+  })
+
+  after(async () => {
+    await stopServer(server)
+  })
+
+  const port = () => {
+    assert.ok(server)
+    return server.port
+  }
+
+  it('refuses a client that speaks another protocol version', async () => {
+    const client = await openClient(port())
+    const closed = once(client.socket, 'close')
+    client.send('hello', { protocolVersion: PROTOCOL_VERSION + 1 })
+    const error = await client.next('error')
+    assert.equal(error.code, 'protocol-mismatch')
+    assert.equal(error.protocolVersion, PROTOCOL_VERSION)
+    await closed
+  })
+
+  it('requires hello before any other message', async () => {
+    const client = await openClient(port())
+    const closed = once(client.socket, 'close')
+    client.send('random:join', {})
+    assert.equal((await client.next('error')).code, 'protocol-mismatch')
+    await closed
+  })
+
+  it('rejects frames that fail validation', async () => {
+    const client = await connectClient(port())
+    try {
+      client.sendRaw('not json')
+      assert.equal((await client.next('error')).message, 'Malformed message.')
+      client.sendRaw(JSON.stringify({ type: 'move', payload: { index: 'f5' } }))
+      assert.equal((await client.next('error')).message, 'Invalid payload for move.')
+      client.sendRaw(JSON.stringify({ type: 'bot:create', payload: { difficulty: 'impossible' } }))
+      assert.equal((await client.next('error')).message, 'Invalid payload for bot:create.')
+    } finally {
+      await client.close()
+    }
+  })
+
+  it('pairs two random-queue players with opposite colours', async () => {
+    const first = await connectClient(port())
+    const second = await connectClient(port())
+    try {
+      first.send('random:join', {})
+      assert.equal((await first.next('queue:status')).searching, true)
+      second.send('random:join', {})
+      const [firstStart, secondStart] = await Promise.all([
+        first.next('match:start'),
+        second.next('match:start'),
+      ])
+      assert.equal(firstStart.matchKey, secondStart.matchKey)
+      assert.deepEqual(
+        [firstStart.yourDisk, secondStart.yourDisk].sort(),
+        ['B', 'W'],
+      )
+      assert.equal(firstStart.state.statusMessage, 'Black to move first.')
+
+      const black = firstStart.yourDisk === 'B' ? first : second
+      const white = black === first ? second : first
+      black.send('move', { index: F5 })
+      const [update] = await Promise.all([white.next('match:update'), black.next('match:update')])
+      assert.deepEqual(update.state.moves, [{ disk: 'B', index: F5 }])
+      assert.equal(update.state.currentDisk, 'W')
+      assert.equal(update.state.statusMessage, 'White to move.')
+    } finally {
+      await closeAll([first, second])
+    }
+  })
+
+  it('rejects illegal moves and ignores moves out of turn', async () => {
+    const { host, guest } = await startKeyMatch(port())
+    try {
+      host.send('move', { index: 0 })
+      assert.equal((await host.next('error')).message, 'Invalid move.')
+
+      // Out-of-turn moves get no reply; the unknown message that follows proves it was handled.
+      guest.send('move', { index: F5 })
+      guest.sendRaw(JSON.stringify({ type: 'ping' }))
+      assert.equal((await guest.next('error')).message, 'Unknown message type: ping')
+      assert.equal(guest.inbox.length, 0)
+
+      host.send('move', { index: F5 })
+      const update = await guest.next('match:update')
+      assert.deepEqual(update.state.moves, [{ disk: 'B', index: F5 }])
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('lets spectators follow a key match and bounces a third player to spectating', async () => {
+    const { host, guest, matchKey } = await startKeyMatch(port())
+    const spectator = await connectClient(port())
+    const latecomer = await connectClient(port())
+    try {
+      spectator.send('spectate:join', { matchKey })
+      const start = await spectator.next('match:start')
+      assert.equal(start.youAre, 'spectator')
+      assert.equal((await host.next('match:update')).state.spectators, 1)
+
+      latecomer.send('key:join', { matchKey })
+      assert.equal((await latecomer.next('prompt:spectate')).matchKey, matchKey)
+
+      host.send('move', { index: F5 })
+      const update = await spectator.next('match:update', (payload) => payload.state.moves.length === 1)
+      assert.equal(update.state.lastMove, F5)
+
+      spectator.send('leave', {})
+      const left = await host.next('match:update', (payload) => payload.state.spectators === 0)
+      assert.equal(left.state.moves.length, 1)
+    } finally {
+      await closeAll([host, guest, spectator, latecomer])
+    }
+  })
+
+  it('reports unknown keys', async () => {
+    const client = await connectClient(port())
+    try {
+      client.send('key:join', { matchKey: 'NOPE00' })
+      assert.equal((await client.next('error')).message, 'Match key not found.')
+      client.send('spectate:join', { matchKey: 'NOPE00' })
+      assert.equal((await client.next('error')).message, 'Match not found.')
+    } finally {
+      await client.close()
+    }
+  })
+
+  it('plays a full game through a pass to the final result', async () => {
+    const parsed = parseMoveList(PASS_GAME.moves)
+    assert.ok(parsed.ok)
+    const { host, guest } = await startKeyMatch(port())
+    const players: Record<Disk, TestClient> = { B: host, W: guest }
+    try {
+      let passMessage: string | null = null
+      for (const [ply, record] of parsed.moves.entries()) {
+        if (record.index === null) continue
+        const mover = players[record.disk]
+        mover.send('move', { index: record.index })
+        if (ply === parsed.moves.length - 1) break
+        const update: ServerPayloads['match:update'] = await mover.next(
+          'match:update',
+          ({ state }) => state.moves.length > ply,
+        )
+        if (ply + 1 === PASS_GAME.passPly) {
+          assert.equal(update.state.moves.length, ply + 2)
+          assert.equal(update.state.moves[PASS_GAME.passPly].index, null)
+          passMessage = update.state.statusMessage
+        }
+      }
+      const passing = parsed.moves[PASS_GAME.passPly].disk === 'B' ? 'Black' : 'White'
+      assert.match(passMessage ?? '', new RegExp(`^${passing} has no moves\\.`))
+
+      const [end] = await Promise.all([host.next('match:end'), guest.next('match:end')])
+      assert.equal(end.reason, 'completed')
+      assert.equal(end.state.winner, 'B')
+      assert.deepEqual(end.state.scores, PASS_GAME.scores)
+      assert.deepEqual(end.state.moves, parsed.moves)
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('awards the game to the player who stays when the other leaves', async () => {
+    const { host, guest } = await startKeyMatch(port())
+    try {
+      guest.send('leave', {})
+      const end = await host.next('match:end')
+      assert.equal(end.reason, 'opponent-left')
+      assert.equal(end.state.winner, 'B')
+
+      // Both are free to queue again.
+      host.send('random:join', {})
+      assert.equal((await host.next('queue:status')).searching, true)
+      host.send('random:cancel', {})
+      assert.equal((await host.next('queue:status')).searching, false)
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('restores a seat when the same client reconnects within the grace period', async () => {
+    const { host, guest, matchKey } = await startKeyMatch(port())
+    let returned: TestClient | undefined
+    try {
+      host.send('move', { index: F5 })
+      await guest.next('match:update')
+      await host.close()
+
+      returned = await connectClient(port(), host.token)
+      assert.equal(returned.id, host.id)
+      const start = await returned.next('match:start')
+      assert.equal(start.matchKey, matchKey)
+      assert.equal(start.yourDisk, 'B')
+      assert.deepEqual(start.state.moves, [{ disk: 'B', index: F5 }])
+
+      guest.send('move', { index: D6 })
+      const update = await returned.next('match:update')
+      assert.equal(update.state.currentDisk, 'B')
+    } finally {
+      await closeAll([host, guest, ...(returned ? [returned] : [])])
+    }
+  })
+
+  it('forfeits a player who stays away past the grace period, but keeps their account', async () => {
+    const { host, guest } = await startKeyMatch(port())
+    let returned: TestClient | undefined
+    try {
+      guest.send('profile:update', { nickname: 'Mika' })
+      await guest.next('profile')
+      await guest.close()
+      const end = await host.next('match:end')
+      assert.equal(end.reason, 'opponent-left')
+      assert.equal(end.state.winner, 'B')
+
+      returned = await connectClient(port(), guest.token)
+      assert.equal(returned.id, guest.id)
+      assert.equal(returned.nickname, 'Mika')
+    } finally {
+      await closeAll([host, guest, ...(returned ? [returned] : [])])
+    }
+  })
+
+  it('names both seats and passes a rename on to the opponent', async () => {
+    const { host, guest } = await startKeyMatch(port())
+    try {
+      assert.match(host.nickname, /^Guest-/)
+      host.send('profile:update', { nickname: '  Hana ' })
+      const profile = await host.next('profile')
+      assert.equal(profile.nickname, 'Hana')
+      assert.equal(profile.token, host.token)
+      const update = await guest.next('match:update')
+      assert.deepEqual(update.state.names, { B: 'Hana', W: guest.nickname })
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('refuses a token it did not sign without opening an account', async () => {
+    const original = await connectClient(port())
+    const forged = `${original.id}.${'A'.repeat(43)}`
+    const client = await openClient(port())
+    const closed = once(client.socket, 'close')
+    try {
+      client.send('hello', { protocolVersion: PROTOCOL_VERSION, token: forged })
+      assert.equal((await client.next('error')).code, 'token-rejected')
+      await closed
+      assert.ok(!client.inbox.some((message) => message.type === 'hello'))
+
+      // The token the client kept still signs in as its own account.
+      const again = await connectClient(port(), original.token)
+      assert.equal(again.id, original.id)
+      await again.close()
+    } finally {
+      await closeAll([original])
+    }
+  })
+
+  it('moves a session to the newest connection and tells the old one why', async () => {
+    const first = await connectClient(port())
+    const closed = once(first.socket, 'close')
+    const second = await connectClient(port(), first.token)
+    try {
+      assert.equal(second.id, first.id)
+      assert.equal((await first.next('error')).code, 'session-replaced')
+      await closed
+
+      second.send('random:join', {})
+      assert.equal((await second.next('queue:status')).searching, true)
+      second.send('random:cancel', {})
+      assert.equal((await second.next('queue:status')).searching, false)
+    } finally {
+      await closeAll([first, second])
+    }
+  })
+
+  it('seats a CPU opponent that answers each move', async () => {
+    const client = await connectClient(port())
+    try {
+      client.send('bot:create', { difficulty: 'easy', disk: 'B' })
+      const start = await client.next('match:start')
+      assert.equal(start.yourDisk, 'B')
+      assert.equal(start.state.bot?.disk, 'W')
+      assert.deepEqual(start.state.names, { B: client.nickname, W: 'CPU (easy)' })
+      assert.equal(typeof start.state.bot?.seed, 'number')
+
+      client.send('move', { index: F5 })
+      const reply = await client.next('match:update', (payload) => payload.state.moves.length === 2)
+      assert.equal(reply.state.moves[1].disk, 'W')
+      assert.equal(reply.state.currentDisk, 'B')
+      client.send('leave', {})
+    } finally {
+      await client.close()
+    }
+  })
+})
+
+describe('match server ratings', () => {
+  let server: TestServer | undefined
+
+  before(async () => {
+    // A 10-point window that grows 20 points a second keeps a 32-point gap apart for a couple of sweeps.
+    server = await startServer({ MATCH_RATING_WINDOW: '10', MATCH_RATING_WINDOW_GROWTH: '20' })
+  })
+
+  after(async () => {
+    await stopServer(server)
+  })
+
+  it('rates a ranked game, counting a player who leaves as the loser', async () => {
+    assert.ok(server)
+    const { host, guest } = await startKeyMatch(server.port, true)
+    try {
+      guest.send('leave', {})
+      const end = await host.next('match:end')
+      assert.equal(end.state.ranked, true)
+      assert.deepEqual(end.ratingChanges, { B: 16, W: -16 })
+      assert.equal(end.state.ratings.B, 1516)
+      const [hostProfile, guestProfile] = await Promise.all([host.next('profile'), guest.next('profile')])
+      assert.deepEqual([hostProfile.rating, hostProfile.ratedGames], [1516, 1])
+      assert.deepEqual([guestProfile.rating, guestProfile.ratedGames], [1484, 1])
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('leaves unranked games and CPU games unrated', async () => {
+    assert.ok(server)
+    const { host, guest } = await startKeyMatch(server.port)
+    const solo = await connectClient(server.port)
+    try {
+      guest.send('leave', {})
+      const end = await host.next('match:end')
+      assert.equal(end.state.ranked, false)
+      assert.equal(end.ratingChanges, undefined)
+
+      solo.send('bot:create', { difficulty: 'easy' })
+      const start = await solo.next('match:start')
+      assert.equal(start.state.ranked, false)
+      solo.send('leave', {})
+      await delay(100)
+      assert.equal(solo.inbox.some((message) => message.type === 'profile'), false)
+    } finally {
+      await closeAll([host, guest, solo])
+    }
+  })
+
+  it('pairs ranked players only once their rating window covers the gap', async () => {
+    assert.ok(server)
+    const { host: winner, guest: loser } = await startKeyMatch(server.port, true)
+    const casual = await connectClient(server.port)
+    try {
+      loser.send('leave', {})
+      await Promise.all([winner.next('profile'), loser.next('profile')])
+
+      casual.send('random:join', { ranked: false })
+      await casual.next('queue:status')
+      const queuedAt = Date.now()
+      winner.send('random:join', { ranked: true })
+      loser.send('random:join', { ranked: true })
+      await Promise.all([winner.next('queue:status'), loser.next('queue:status')])
+      const [winnerStart, loserStart] = await Promise.all([
+        winner.next('match:start'),
+        loser.next('match:start'),
+      ])
+      assert.ok(Date.now() - queuedAt >= 1000)
+      assert.equal(winnerStart.matchKey, loserStart.matchKey)
+      assert.equal(winnerStart.state.ranked, true)
+      assert.deepEqual(
+        [winnerStart.state.ratings.B, winnerStart.state.ratings.W].sort(),
+        [1484, 1516],
+      )
+      assert.equal(casual.inbox.some((message) => message.type === 'match:start'), false)
+      casual.send('random:cancel', {})
+      assert.equal((await casual.next('queue:status')).searching, false)
+    } finally {
+      await closeAll([winner, loser, casual])
+    }
+  })
+})
+
+describe('match server chess clocks', () => {
+  let server: TestServer | undefined
+
+  before(async () => {
+    server = await startServer()
+  })
+
+  after(async () => {
+    await stopServer(server)
+  })
+
+  it('charges the mover, adds the increment and starts the other clock', async () => {
+    assert.ok(server)
+    const timeControl: TimeControl = { kind: 'fischer', initialMs: 60000, incrementMs: 5000 }
+    const { host, guest } = await startKeyMatch(server.port, false, timeControl)
+    try {
+      const movedAt = Date.now()
+      host.send('move', { index: F5 })
+      const { state } = await guest.next('match:update')
+      assert.deepEqual(state.timeControl, timeControl)
+      assert.ok(state.clocks)
+      assert.ok(state.clocks.B > 60000 && state.clocks.B <= 65000)
+      assert.equal(state.clocks.W, 60000)
+      const deadline = state.turnDeadline ?? 0
+      assert.ok(deadline >= movedAt + 60000 && deadline <= Date.now() + 60000)
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('flags the side whose byo-yomi period runs out', async () => {
+    assert.ok(server)
+    const timeControl: TimeControl = { kind: 'byoyomi', initialMs: 0, periodMs: 1000 }
+    const { host, guest } = await startKeyMatch(server.port, false, timeControl)
+    try {
+      host.send('move', { index: F5 })
+      const update = await host.next('match:update')
+      assert.deepEqual(update.state.clocks, { B: 0, W: 0 })
+
+      const [end] = await Promise.all([host.next('match:end'), guest.next('match:end')])
+      assert.equal(end.reason, 'timeout')
+      assert.equal(end.state.winner, 'B')
+      assert.equal(end.state.turnDeadline, null)
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+
+  it('keeps the flat per-move limit for rooms without a clock', async () => {
+    assert.ok(server)
+    const { host, guest } = await startKeyMatch(server.port)
+    try {
+      host.send('move', { index: F5 })
+      const { state } = await guest.next('match:update')
+      assert.equal(state.timeControl, null)
+      assert.equal(state.clocks, null)
+      assert.ok((state.turnDeadline ?? 0) > Date.now() + 60000)
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+})
+
+describe('match server turn timeout', () => {
+  let server: TestServer | undefined
+
+  before(async () => {
+    server = await startServer({ MATCH_TURN_TIMEOUT_MS: '1500' })
+  })
+
+  after(async () => {
+    await stopServer(server)
+  })
+
+  it('ends the game for the side that runs out of time', async () => {
+    assert.ok(server)
+    const { host, guest } = await startKeyMatch(server.port)
+    try {
+      host.send('move', { index: F5 })
+      const update = await host.next('match:update')
+      assert.ok((update.state.turnDeadline ?? 0) > Date.now())
+
+      const [end] = await Promise.all([host.next('match:end'), guest.next('match:end')])
+      assert.equal(end.reason, 'timeout')
+      assert.equal(end.state.winner, 'B')
+      assert.equal(end.state.statusMessage, 'Black wins by timeout.')
+    } finally {
+      await closeAll([host, guest])
+    }
+  })
+})
+
+describe('match server restart', () => {
+  let directory: string | undefined
+  let server: TestServer | undefined
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'othello-match-'))
+  })
+
+  after(async () => {
+    await stopServer(server)
+    if (directory) await rm(directory, { recursive: true, force: true })
+  })
+
+  it('resumes a game in progress, clock included, after a restart', async () => {
+    assert.ok(directory)
+    const env = { MATCH_STORAGE: 'file', MATCH_STORAGE_FILE: join(directory, 'match-state.json') }
+    server = await startServer(env)
+    const { host, guest, matchKey } = await startKeyMatch(server.port)
+    host.send('profile:update', { nickname: 'Hana' })
+    await guest.next('match:update', ({ state }) => state.names.B === 'Hana')
+    host.send('move', { index: F5 })
+    const before = await guest.next('match:update', ({ state }) => state.moves.length === 1)
+    await closeAll([host, guest])
+    await stopServer(server)
+
+    const downtime = 300
+    await delay(downtime)
+    server = await startServer(env)
+    const black = await connectClient(server.port, host.token)
+    const white = await connectClient(server.port, guest.token)
+    try {
+      assert.equal(black.id, host.id)
+      assert.equal(black.nickname, 'Hana')
+      const start = await black.next('match:start')
+      assert.equal(start.matchKey, matchKey)
+      assert.equal(start.yourDisk, 'B')
+      assert.deepEqual(start.state.moves, [{ disk: 'B', index: F5 }])
+      assert.deepEqual(start.state.names, { B: 'Hana', W: guest.nickname })
+      assert.ok((start.state.turnDeadline ?? 0) >= (before.state.turnDeadline ?? 0) + downtime)
+      assert.equal((await white.next('match:start')).yourDisk, 'W')
+
+      white.send('move', { index: D6 })
+      const update = await black.next('match:update')
+      assert.equal(update.state.moves.length, 2)
+      assert.equal(update.state.currentDisk, 'B')
+    } finally {
+      await closeAll([black, white])
+    }
+  })
+
+  it('saves an account once it is renamed, but not a guest that only said hello', async () => {
+    assert.ok(directory)
+    await stopServer(server)
+    const file = join(directory, 'accounts.json')
+    server = await startServer({ MATCH_STORAGE: 'file', MATCH_STORAGE_FILE: file })
+    const [visitor, player] = await Promise.all([connectClient(server.port), connectClient(server.port)])
+    try {
+      player.send('profile:update', { nickname: 'Hana' })
+      await player.next('profile')
+    } finally {
+      await closeAll([visitor, player])
+    }
+    await stopServer(server)
+    const saved = JSON.parse(await readFile(file, 'utf8')) as ServerSnapshot
+    assert.deepEqual(saved.accounts.map((account) => account.id), [player.id])
+  })
+})
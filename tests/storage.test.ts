@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import {
+  createFileStorage,
+  parseSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+  type ServerSnapshot,
+} from '../server/storage'
+
+const SNAPSHOT: ServerSnapshot = {
+  formatVersion: SNAPSHOT_FORMAT_VERSION,
+  savedAt: 1700000000000,
+  rooms: [
+    {
+      key: 'ABC234',
+      moves: [{ disk: 'B', index: 37 }],
+      players: { B: 'host', W: 'bot:1' },
+      spectators: ['viewer'],
+      status: 'playing',
+      statusMessage: 'White to move.',
+      createdAt: 1699999990000,
+      winner: null,
+      turnDeadline: 1700000180000,
+      seed: 7,
+      ranked: true,
+      ratedPlayers: { B: 'host', W: 'guest' },
+      timeControl: { kind: 'byoyomi', initialMs: 300000, periodMs: 30000 },
+      clocks: { B: 296000, W: 300000 },
+      turnStartedAt: 1700000000000,
+    },
+  ],
+  clients: [
+    { id: 'host', status: 'playing', roomKey: 'ABC234', role: 'player', disk: 'B', bot: null },
+    { id: 'bot:1', status: 'playing', roomKey: 'ABC234', role: 'player', disk: 'W', bot: { difficulty: 'easy' } },
+    { id: 'viewer', status: 'spectating', roomKey: 'ABC234', role: 'spectator', disk: null, bot: null },
+  ],
+  randomQueue: [{ id: 'waiter', ranked: true, joinedAt: 1699999995000 }],
+  accounts: [
+    { id: 'host', nickname: 'Hana', createdAt: 1699999980000, rating: 1532, ratedGames: 4 },
+    { id: 'viewer', nickname: 'Guest-K7QM', createdAt: 1699999985000, rating: 1500, ratedGames: 0 },
+  ],
+  tokenSecret: 'c2VjcmV0',
+}
+
+describe('createFileStorage', () => {
+  let directory = ''
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'othello-storage-'))
+  })
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('loads nothing before the first save', async () => {
+    assert.equal(await createFileStorage(join(directory, 'missing.json')).load(), null)
+  })
+
+  it('round-trips a snapshot, creating the directory', async () => {
+    const path = join(directory, 'nested', 'state.json')
+    const storage = createFileStorage(path)
+    await storage.save(SNAPSHOT)
+    assert.deepEqual(await storage.load(), SNAPSHOT)
+    await storage.save({ ...SNAPSHOT, rooms: [] })
+    assert.deepEqual((await storage.load())?.rooms, [])
+    assert.deepEqual(JSON.parse(await readFile(path, 'utf8')).rooms, [])
+  })
+
+  it('refuses a file from another format version', async () => {
+    const path = join(directory, 'old.json')
+    await writeFile(path, JSON.stringify({ ...SNAPSHOT, formatVersion: SNAPSHOT_FORMAT_VERSION + 1 }))
+    await assert.rejects(createFileStorage(path).load(), /format/)
+  })
+})
+
+describe('parseSnapshot', () => {
+  it('rejects rooms and clients that do not fit the schema', () => {
+    const [room] = SNAPSHOT.rooms
+    const [client] = SNAPSHOT.clients
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, rooms: [{ ...room, moves: [{ disk: 'X', index: 1 }] }] }), /room/)
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, rooms: [{ ...room, status: 'paused' }] }), /room/)
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, clients: [{ ...client, status: 'away' }] }), /client/)
+    assert.throws(
+      () => parseSnapshot({ ...SNAPSHOT, clients: [{ ...client, bot: { difficulty: 'godlike' } }] }),
+      /client/,
+    )
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, savedAt: 'yesterday' }), /savedAt/)
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, accounts: [{ id: 'host', nickname: 7 }] }), /account/)
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, tokenSecret: '' }), /secret/)
+    assert.throws(() => parseSnapshot({ ...SNAPSHOT, randomQueue: ['waiter'] }), /queue/)
+  })
+})
+
+// Written by the match server as it was at each format, so the upgrades are checked against real files.
+describe('snapshots from earlier formats', () => {
+  const fixture = (name: string) => fileURLToPath(new URL(`./snapshots/${name}`, import.meta.url))
+
+  it('loads a format 2 file as unrated accounts and unranked rooms without clocks', async () => {
+    const snapshot = await createFileStorage(fixture('format-2.json')).load()
+    assert.ok(snapshot)
+    assert.equal(snapshot.formatVersion, SNAPSHOT_FORMAT_VERSION)
+    const [room] = snapshot.rooms
+    assert.deepEqual(room.moves, [{ disk: 'B', index: 37 }])
+    assert.equal(room.ranked, false)
+    assert.equal(room.ratedPlayers, null)
+    assert.equal(room.timeControl, null)
+    assert.deepEqual(snapshot.randomQueue, [
+      { id: snapshot.clients[2].id, ranked: false, joinedAt: snapshot.savedAt },
+    ])
+    assert.deepEqual(
+      snapshot.accounts.map(({ nickname, rating, ratedGames }) => ({ nickname, rating, ratedGames })),
+      [
+        { nickname: 'Hana', rating: 1500, ratedGames: 0 },
+        { nickname: 'Guest-SNQH', rating: 1500, ratedGames: 0 },
+        { nickname: 'Guest-TZJE', rating: 1500, ratedGames: 0 },
+      ],
+    )
+  })
+
+  it('loads a format 3 file with its ranked room and a flat per-move limit', async () => {
+    const snapshot = await createFileStorage(fixture('format-3.json')).load()
+    assert.ok(snapshot)
+    assert.equal(snapshot.formatVersion, SNAPSHOT_FORMAT_VERSION)
+    const [room] = snapshot.rooms
+    assert.equal(room.ranked, true)
+    assert.deepEqual(room.ratedPlayers, room.players)
+    assert.equal(room.timeControl, null)
+    assert.equal(room.clocks, null)
+    assert.equal(room.turnStartedAt, null)
+    assert.equal(room.turnDeadline, 1792439135682)
+    assert.equal(snapshot.randomQueue[0].joinedAt, 1792438955683)
+  })
+})